@@ -0,0 +1,363 @@
+// Export and import of collections as portable archives (JSONL, or a gzipped tarball of JSONL plus file contents)
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import type { Collection, VectraClient } from './client.js';
+import { mapWithConcurrency } from './retry.js';
+import { UPLOAD_CONCURRENCY } from './config.js';
+import { cancellationNote, withProgress, type BatchControl } from './progress.js';
+import { buildToolResponse, type OutputFormat } from './output.js';
+import { logger } from './logger.js';
+
+const log = logger.child('archive');
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const ARCHIVE_VERSION = 1;
+
+// Name of the JSONL index inside a tarball archive
+const TAR_INDEX_NAME = 'collection.jsonl';
+
+const TAR_BLOCK_SIZE = 512;
+
+export type ArchiveFormat = 'jsonl' | 'tar';
+
+// First line of every archive
+type CollectionRecord = {
+  type: 'collection';
+  version: number;
+  exportedAt: string;
+  collection: { id: string; name: string; description?: string | null };
+};
+
+// One line per exported file; tarballs store the content as a separate entry at contentPath
+type FileRecord = {
+  type: 'file';
+  id: string;
+  filename: string;
+  mimeType?: string;
+  metadata: Record<string, string>;
+  content?: string;
+  contentPath?: string;
+};
+
+// A record's fields, if it is a JSON object
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isCollectionRecord(value: unknown): value is CollectionRecord {
+  return isObject(value) && value.type === 'collection' && isObject(value.collection) &&
+    typeof value.collection.id === 'string' && typeof value.collection.name === 'string';
+}
+
+// A file record; in a tarball index its content is still in the entry at contentPath
+function isFileRecord(value: unknown): value is FileRecord {
+  return isObject(value) && value.type === 'file' && typeof value.id === 'string' && typeof value.filename === 'string';
+}
+
+// --- Tarball (ustar) Encoding ---
+
+function writeTarString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf-8');
+}
+
+function writeTarOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeTarString(header, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length);
+}
+
+// Split a path into the ustar prefix (up to 155 bytes) and name (up to 100 bytes) fields, at a slash
+function splitTarName(fullName: string): { prefix: string; name: string } {
+  if (Buffer.byteLength(fullName) <= 100) return { prefix: '', name: fullName };
+  for (let slash = fullName.indexOf('/'); slash !== -1; slash = fullName.indexOf('/', slash + 1)) {
+    const prefix = fullName.slice(0, slash);
+    const name = fullName.slice(slash + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100 && name !== '') return { prefix, name };
+  }
+  throw new Error(`path too long for a tar archive: ${fullName}`);
+}
+
+// Build an uncompressed tar stream of regular files
+export function createTar(entries: Array<{ name: string; content: Buffer }>): Buffer {
+  const blocks: Buffer[] = [];
+  const mtime = Math.floor(Date.now() / 1000);
+  for (const entry of entries) {
+    const header = Buffer.alloc(TAR_BLOCK_SIZE);
+    const { prefix, name } = splitTarName(entry.name);
+    writeTarString(header, name, 0, 100);
+    writeTarOctal(header, 0o644, 100, 8);
+    writeTarOctal(header, 0, 108, 8);
+    writeTarOctal(header, 0, 116, 8);
+    writeTarOctal(header, entry.content.length, 124, 12);
+    writeTarOctal(header, mtime, 136, 12);
+    header.fill(' ', 148, 156); // Checksum is computed with its own field set to spaces
+    header.write('0', 156); // Regular file
+    writeTarString(header, 'ustar\0', 257, 6);
+    writeTarString(header, '00', 263, 2);
+    writeTarString(header, prefix, 345, 155);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    writeTarString(header, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+    blocks.push(header, entry.content, Buffer.alloc((TAR_BLOCK_SIZE - (entry.content.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE));
+  }
+  blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2)); // End-of-archive marker
+  return Buffer.concat(blocks);
+}
+
+function readTarString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+// Read the regular files of an uncompressed tar stream, keyed by path
+export function readTar(tar: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+    const prefix = readTarString(header, 345, 155);
+    const name = prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100);
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const typeflag = String.fromCharCode(header[156]);
+    if (Number.isNaN(size)) throw new Error(`corrupt tar header for "${name}"`);
+    offset += TAR_BLOCK_SIZE;
+    if (typeflag === '0' || typeflag === '\0') entries.set(name, tar.subarray(offset, offset + size));
+    offset += Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+  }
+  return entries;
+}
+
+// --- Archive Files ---
+
+// Archive format from an explicit choice or the output path's extension
+function archiveFormatFor(archivePath: string, format?: ArchiveFormat): ArchiveFormat {
+  if (format) return format;
+  return /\.(tar\.gz|tgz|tar)$/i.test(archivePath) ? 'tar' : 'jsonl';
+}
+
+// Path of a file's content inside a tarball: numbered, so duplicate filenames never collide
+function tarContentPath(index: number, filename: string): string {
+  const safeName = filename.replace(/[^\w.-]+/g, '_').slice(-80);
+  return `files/${String(index + 1).padStart(6, '0')}-${safeName}`;
+}
+
+const toJsonl = (records: unknown[]) => records.map(record => JSON.stringify(record)).join('\n') + '\n';
+
+async function writeArchive(archivePath: string, format: ArchiveFormat, collection: CollectionRecord, files: FileRecord[]) {
+  let output: Buffer;
+  if (format === 'jsonl') {
+    output = Buffer.from(toJsonl([collection, ...files]), 'utf-8');
+  } else {
+    const contents = files.map((file, index) => ({ name: tarContentPath(index, file.filename), content: Buffer.from(file.content ?? '', 'utf-8') }));
+    const index = files.map(({ content, ...file }, i) => ({ ...file, contentPath: contents[i].name }));
+    const tar = createTar([{ name: TAR_INDEX_NAME, content: Buffer.from(toJsonl([collection, ...index]), 'utf-8') }, ...contents]);
+    output = /\.tar$/i.test(archivePath) ? tar : await gzip(tar);
+  }
+  // Write atomically so an interrupted export never leaves a truncated archive
+  await fs.mkdir(path.dirname(archivePath), { recursive: true });
+  const tmpPath = `${archivePath}.tmp`;
+  await fs.writeFile(tmpPath, output);
+  await fs.rename(tmpPath, archivePath);
+}
+
+function parseJsonl(text: string): unknown[] {
+  return text.split('\n').filter(line => line.trim() !== '').map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`line ${index + 1} is not valid JSON`);
+    }
+  });
+}
+
+async function readArchive(archivePath: string): Promise<{ collection: CollectionRecord; files: FileRecord[] }> {
+  let raw: Buffer;
+  try {
+    raw = await fs.readFile(archivePath);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Failed to read archive "${archivePath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  try {
+    const isGzip = raw[0] === 0x1f && raw[1] === 0x8b;
+    const data = isGzip ? await gunzip(raw) : raw;
+    // A ustar archive carries its magic at offset 257 of the first header
+    const isTar = data.subarray(257, 262).toString('latin1') === 'ustar';
+    let records: unknown[];
+    if (isTar) {
+      const entries = readTar(data);
+      const index = entries.get(TAR_INDEX_NAME);
+      if (!index) throw new Error(`missing ${TAR_INDEX_NAME}`);
+      records = parseJsonl(index.toString('utf-8')).map(record => {
+        if (!isFileRecord(record) || typeof record.contentPath !== 'string') return record;
+        const content = entries.get(record.contentPath);
+        if (!content) throw new Error(`missing content entry ${record.contentPath}`);
+        return { ...record, content: content.toString('utf-8') };
+      });
+    } else {
+      records = parseJsonl(data.toString('utf-8'));
+    }
+
+    const [collection, ...files] = records;
+    if (!isCollectionRecord(collection)) {
+      throw new Error('the first record must describe the collection');
+    }
+    if (collection.version !== ARCHIVE_VERSION) throw new Error(`unsupported archive version ${collection.version}`);
+    const fileRecords = files.map((file, index) => {
+      if (!isFileRecord(file) || typeof file.content !== 'string') {
+        throw new Error(`file record ${index + 1} is missing its id, filename or content`);
+      }
+      return { ...file, metadata: stringMetadata(file.metadata) };
+    });
+    return { collection, files: fileRecords };
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid collection archive "${archivePath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Metadata values are uploaded as form fields, so they are stored as strings
+function stringMetadata(metadata: unknown): Record<string, string> {
+  if (!metadata || typeof metadata !== 'object') return {};
+  return Object.fromEntries(Object.entries(metadata).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]));
+}
+
+// --- Tool Handlers ---
+
+// Handler for the export_collection tool: download every file of a collection into a local archive
+export async function handleExportCollection(
+    client: VectraClient,
+    collectionId: string,
+    outputPath: string,
+    archiveFormat?: ArchiveFormat,
+    concurrency: number = UPLOAD_CONCURRENCY,
+    control?: BatchControl,
+    format: OutputFormat = 'markdown'
+) {
+  const collection = (await client.listCollections()).find(col => col.id === collectionId);
+  if (!collection) {
+    throw new McpError(ErrorCode.InvalidParams, `Collection not found: ${collectionId}`);
+  }
+  const archivePath = path.resolve(outputPath);
+  const resolvedFormat = archiveFormatFor(archivePath, archiveFormat);
+  const listed = await client.listCollectionFiles(collectionId);
+
+  log.info(`Exporting ${listed.length} files from collection ${collectionId}`, { collectionId, files: listed.length, archivePath });
+
+  const skipped: Array<{ fileId: string; filename?: string; reason: string }> = [];
+  const results = await mapWithConcurrency(listed, concurrency, withProgress(listed.length, control, async (listedFile): Promise<FileRecord | undefined> => {
+    try {
+      const file = await client.getFile(listedFile.id);
+      const content = file.content ?? file.text;
+      if (typeof content !== 'string') {
+        skipped.push({ fileId: listedFile.id, filename: listedFile.filename, reason: 'the API returned no content for this file' });
+        return undefined;
+      }
+      return {
+        type: 'file',
+        id: listedFile.id,
+        filename: file.filename ?? listedFile.filename ?? `${listedFile.id}.txt`,
+        mimeType: file.mimeType ?? listedFile.mimeType,
+        metadata: stringMetadata(file.metadata ?? listedFile.metadata),
+        content,
+      };
+    } catch (error) {
+      skipped.push({ fileId: listedFile.id, filename: listedFile.filename, reason: error instanceof Error ? error.message : 'Unknown error' });
+      return undefined;
+    }
+  }), control?.signal);
+
+  // A cancelled export is not written, since the archive would silently miss files
+  const cancelled = cancellationNote(results.filter(result => result !== undefined).length + skipped.length, listed.length, control);
+  if (cancelled) {
+    throw new McpError(ErrorCode.InternalError, `Export of collection ${collectionId} cancelled; no archive was written`);
+  }
+
+  const files = results.filter((result): result is FileRecord => result !== undefined);
+  const header: CollectionRecord = {
+    type: 'collection',
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    collection: { id: collection.id, name: collection.name, description: collection.description },
+  };
+  await writeArchive(archivePath, resolvedFormat, header, files);
+
+  let summary = `Exported collection "${collection.name}" (ID: ${collection.id}) to ${archivePath} (${resolvedFormat}): ${files.length} of ${listed.length} files.`;
+  if (skipped.length > 0) {
+    summary += `\nSkipped files: ${skipped.map(s => `${s.filename ?? s.fileId} (${s.reason})`).join(', ')}`;
+  }
+  return buildToolResponse(summary, { archivePath, archiveFormat: resolvedFormat, collection: header.collection, exported: files.length, skipped }, format);
+}
+
+// Handler for the import_collection tool: re-create an archived collection and report the new IDs
+export async function handleImportCollection(
+    client: VectraClient,
+    archivePath: string,
+    options: { name?: string; collectionId?: string; reportPath?: string },
+    concurrency: number = UPLOAD_CONCURRENCY,
+    control?: BatchControl,
+    format: OutputFormat = 'markdown'
+) {
+  if (options.name && options.collectionId) {
+    throw new McpError(ErrorCode.InvalidParams, 'Pass either name (to create a collection) or collectionId (to import into an existing one), not both');
+  }
+  const resolvedPath = path.resolve(archivePath);
+  const archive = await readArchive(resolvedPath);
+  const source = archive.collection.collection;
+
+  // Import into an existing collection, or create one named after the archived collection
+  let target: Collection;
+  if (options.collectionId) {
+    const existing = (await client.listCollections()).find(col => col.id === options.collectionId);
+    if (!existing) {
+      throw new McpError(ErrorCode.InvalidParams, `Collection not found: ${options.collectionId}`);
+    }
+    target = existing;
+  } else {
+    target = await client.createCollection({ name: options.name ?? source.name, description: source.description ?? undefined });
+    if (!target?.id) {
+      throw new McpError(ErrorCode.InternalError, 'Collection was created but no collection ID was returned');
+    }
+  }
+
+  log.info(`Importing ${archive.files.length} files into collection ${target.id}`, { collectionId: target.id, files: archive.files.length, archivePath });
+
+  const failures: Array<{ oldId: string; filename: string; error: string }> = [];
+  const results = await mapWithConcurrency(archive.files, concurrency, withProgress(archive.files.length, control, async (file) => {
+    try {
+      const uploaded = await client.uploadFile({ content: file.content!, fileName: file.filename, metadata: file.metadata, collectionId: target.id });
+      if (!uploaded?.id) throw new Error('Upload succeeded but no file ID was returned');
+      return { oldId: file.id, newId: uploaded.id, filename: file.filename };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      log.warning(`Failed to import ${file.filename}`, { fileId: file.id, filename: file.filename, error: message });
+      failures.push({ oldId: file.id, filename: file.filename, error: message });
+      return undefined;
+    }
+  }), control?.signal);
+
+  const files = results.filter((result): result is { oldId: string; newId: string; filename: string } => result !== undefined);
+  const report = {
+    archivePath: resolvedPath,
+    collection: { oldId: source.id, newId: target.id, name: target.name, created: !options.collectionId },
+    files,
+    failures,
+  };
+  if (options.reportPath) {
+    await fs.writeFile(path.resolve(options.reportPath), JSON.stringify(report, null, 2), 'utf-8');
+  }
+
+  let summary = `Imported ${files.length} of ${archive.files.length} files into collection "${target.name}" (ID: ${target.id}).`;
+  summary += `\nCollection ID: ${source.id} -> ${target.id}`;
+  if (files.length > 0) {
+    summary += `\nFile IDs:\n${files.map(f => `- ${f.filename}: ${f.oldId} -> ${f.newId}`).join('\n')}`;
+  }
+  if (failures.length > 0) {
+    summary += `\nFailed files: ${failures.map(f => `${f.filename} (${f.error})`).join(', ')}`;
+  }
+  const cancelled = cancellationNote(files.length + failures.length, archive.files.length, control);
+  if (cancelled) summary += `\n${cancelled}`;
+  if (options.reportPath) summary += `\nID remapping report: ${path.resolve(options.reportPath)}`;
+
+  return buildToolResponse(summary, report, format);
+}
@@ -0,0 +1,186 @@
+// Audit trail: one JSONL entry per tool call, appended to a size-rotated log file
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import path from 'path';
+import { logger, redact } from './logger.js';
+import { MUTATING_TOOLS } from './policy.js';
+import { TOOL_DATA, type ToolResponse } from './output.js';
+
+const log = logger.child('audit');
+
+export type AuditConfig = {
+  enabled: boolean;
+  path: string;
+  maxBytes: number; // Rotate once the log would grow past this size
+  maxFiles: number; // Rotated files kept next to the log (audit.jsonl.1 is the newest)
+};
+
+export type AuditStatus = 'success' | 'error' | 'dry_run';
+
+export type AuditEntry = {
+  time: string;
+  tool: string;
+  client?: { name: string; version: string }; // As reported by the MCP client when it connected
+  backend?: string;
+  endpoint?: string; // Base URL of the backend
+  status: AuditStatus;
+  error?: string;
+  durationMs: number;
+  args: unknown; // Sanitized: secrets masked, long strings cut
+  collectionIds: string[]; // Named in the arguments or created/changed by the call
+  fileIds: string[];
+};
+
+export type AuditQuery = { tool?: string; collectionId?: string; fileId?: string; status?: AuditStatus; since?: string; limit: number };
+
+// Argument strings longer than this (e.g. embedded text) are cut in the audit log
+const MAX_ARG_STRING_LENGTH = 200;
+
+const FILE_ID_KEYS = new Set(['fileId', 'fileIds', 'previousFileId']);
+const COLLECTION_ID_KEYS = new Set(['collectionId', 'collectionIds']);
+
+// Mask secrets and cut long strings, so the log holds what was done rather than the content itself
+function sanitizeArgs(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_ARG_STRING_LENGTH ? `${value.slice(0, MAX_ARG_STRING_LENGTH)}... [${value.length} chars]` : value;
+  }
+  if (Array.isArray(value)) return value.map(sanitizeArgs);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, sanitizeArgs(item)]));
+  }
+  return value;
+}
+
+// Gather file and collection IDs by key; `id` / `newId` of a collection or of imported files count too
+function collectIds(value: unknown, ids: { files: Set<string>; collections: Set<string> }, key?: string, parentKey?: string) {
+  if (typeof value === 'string') {
+    if (FILE_ID_KEYS.has(key ?? '') || (key === 'newId' && parentKey === 'files')) ids.files.add(value);
+    if (COLLECTION_ID_KEYS.has(key ?? '') || ((key === 'id' || key === 'newId') && parentKey === 'collection')) ids.collections.add(value);
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) collectIds(item, ids, key, parentKey);
+    return;
+  }
+  if (value && typeof value === 'object') {
+    for (const [childKey, item] of Object.entries(value)) collectIds(item, ids, childKey, key);
+  }
+}
+
+/**
+ * Build the audit entry of a finished tool call. IDs come from the arguments and, for tools that
+ * change data, from the structured result (listing and query results would add every ID they show).
+ */
+export function auditEntry(call: {
+  tool: string;
+  args: Record<string, unknown>;
+  response: ToolResponse;
+  startedAt: number;
+  client?: { name: string; version: string };
+  backend?: string;
+  endpoint?: string;
+}): AuditEntry {
+  const data = call.response[TOOL_DATA] as { dryRun?: boolean; error?: string } | undefined;
+  const ids = { files: new Set<string>(), collections: new Set<string>() };
+  collectIds(call.args, ids);
+  if (!call.response.isError && MUTATING_TOOLS.includes(call.tool)) collectIds(data, ids);
+
+  return {
+    time: new Date(call.startedAt).toISOString(),
+    tool: call.tool,
+    client: call.client,
+    backend: call.backend,
+    endpoint: call.endpoint,
+    status: call.response.isError ? 'error' : data?.dryRun ? 'dry_run' : 'success',
+    error: call.response.isError ? data?.error : undefined,
+    durationMs: Date.now() - call.startedAt,
+    args: sanitizeArgs(redact(call.args)),
+    collectionIds: [...ids.collections],
+    fileIds: [...ids.files],
+  };
+}
+
+export class AuditLog {
+  private pending: Promise<void> = Promise.resolve();
+  private size?: number;
+
+  constructor(private readonly config: AuditConfig) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  // Queue an entry; audit failures are logged but never fail the tool call
+  record(entry: AuditEntry) {
+    if (!this.config.enabled) return;
+    const line = `${JSON.stringify(entry)}\n`;
+    this.pending = this.pending
+      .then(() => this.append(line))
+      .catch(error => log.error('Failed to write the audit log', { path: this.config.path, error }));
+  }
+
+  private async append(line: string) {
+    if (this.size === undefined) {
+      this.size = await fs.stat(this.config.path).then(stats => stats.size, () => 0);
+    }
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.config.maxBytes) {
+      await this.rotate();
+    }
+    await fs.mkdir(path.dirname(this.config.path), { recursive: true });
+    await fs.appendFile(this.config.path, line, { encoding: 'utf-8', mode: 0o600 });
+    this.size += bytes;
+  }
+
+  // audit.jsonl -> audit.jsonl.1 -> audit.jsonl.2 ...; the oldest file beyond maxFiles is dropped
+  private async rotate() {
+    const rotated = (index: number) => `${this.config.path}.${index}`;
+    if (this.config.maxFiles === 0) {
+      await fs.rm(this.config.path, { force: true });
+    } else {
+      for (let index = this.config.maxFiles - 1; index >= 1; index--) {
+        await fs.rename(rotated(index), rotated(index + 1)).catch(ignoreMissing);
+      }
+      await fs.rename(this.config.path, rotated(1));
+    }
+    this.size = 0;
+  }
+
+  // Most recent entries first, across the log and its rotated files
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.pending; // Include entries still being written
+    const since = query.since !== undefined ? Date.parse(query.since) : undefined;
+    if (Number.isNaN(since)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid since "${query.since}": expected an ISO 8601 date or time`);
+    }
+    const matches: AuditEntry[] = [];
+    const paths = [this.config.path, ...Array.from({ length: this.config.maxFiles }, (_, i) => `${this.config.path}.${i + 1}`)];
+
+    for (const logPath of paths) {
+      const raw = await fs.readFile(logPath, 'utf-8').catch(ignoreMissing);
+      if (raw === undefined) continue;
+      const lines = raw.split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // A torn write from a crash; skip it
+        }
+        if (since !== undefined && Date.parse(entry.time) < since) continue;
+        if (query.tool && entry.tool !== query.tool) continue;
+        if (query.status && entry.status !== query.status) continue;
+        if (query.collectionId && !entry.collectionIds.includes(query.collectionId)) continue;
+        if (query.fileId && !entry.fileIds.includes(query.fileId)) continue;
+        matches.push(entry);
+        if (matches.length >= query.limit) return matches;
+      }
+    }
+    return matches;
+  }
+}
+
+function ignoreMissing(error: unknown): undefined {
+  if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  return undefined;
+}
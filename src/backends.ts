@@ -0,0 +1,76 @@
+// Named Vectra backend profiles, each with its own lazily created API client
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { VectraClient, type BackendHealth } from './client.js';
+import { ConfigError, LEGACY_BACKEND_NAME, type BackendProfile } from './config.js';
+
+// Reachability probes give up after this long, so one dead backend does not stall list_backends
+const PING_TIMEOUT_MS = 5000;
+
+export type BackendStatus = BackendHealth & { name: string; baseURL: string; isDefault: boolean };
+
+export class BackendRegistry {
+  private readonly profiles = new Map<string, BackendProfile>();
+  private readonly clients = new Map<string, VectraClient>();
+  readonly defaultName: string;
+
+  constructor(profiles: BackendProfile[], defaultName?: string) {
+    if (profiles.length === 0) {
+      throw new ConfigError('No Vectra backend configured');
+    }
+    for (const profile of profiles) this.profiles.set(profile.name, profile);
+
+    const fallback = profiles.length === 1 ? profiles[0].name : this.profiles.has(LEGACY_BACKEND_NAME) ? LEGACY_BACKEND_NAME : undefined;
+    const resolved = defaultName ?? fallback;
+    if (!resolved) {
+      throw new ConfigError(`Several Vectra backends are configured (${this.names.join(', ')}); set defaultBackend in the config file or VECTRA_DEFAULT_BACKEND to choose the default`);
+    }
+    if (!this.profiles.has(resolved)) {
+      throw new ConfigError(`Default backend "${resolved}" is not configured (configured: ${this.names.join(', ')})`);
+    }
+    this.defaultName = resolved;
+  }
+
+  get names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  // Default collection of a backend (the default backend when no name is given), if one is configured
+  defaultCollectionId(name?: string): string | undefined {
+    return this.profiles.get(name ?? this.defaultName)?.defaultCollectionId;
+  }
+
+  // Whether any backend has a default collection, so collectionId can be left out of tool calls
+  get hasDefaultCollections(): boolean {
+    return [...this.profiles.values()].some(profile => profile.defaultCollectionId !== undefined);
+  }
+
+  // Base URL of a backend, if it is configured
+  baseURL(name?: string): string | undefined {
+    return this.profiles.get(name ?? this.defaultName)?.baseURL;
+  }
+
+  // Client for a named backend, or for the default backend when no name is given
+  client(name?: string): VectraClient {
+    const profileName = name ?? this.defaultName;
+    const profile = this.profiles.get(profileName);
+    if (!profile) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown backend "${profileName}". Configured backends: ${this.names.join(', ')}`);
+    }
+    let client = this.clients.get(profileName);
+    if (!client) {
+      client = new VectraClient({ baseURL: profile.baseURL, apiKey: profile.apiKey, ...profile.request });
+      this.clients.set(profileName, client);
+    }
+    return client;
+  }
+
+  // Probe every backend in parallel
+  async checkAll(): Promise<BackendStatus[]> {
+    return Promise.all([...this.profiles.values()].map(async profile => ({
+      name: profile.name,
+      baseURL: profile.baseURL,
+      isDefault: profile.name === this.defaultName,
+      ...await this.client(profile.name).ping(PING_TIMEOUT_MS),
+    })));
+  }
+}
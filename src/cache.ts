@@ -0,0 +1,205 @@
+// In-memory LRU cache of /query results, invalidated per collection when tools write to it
+import type { QueryRequest, QueryResult, VectraClient } from './client.js';
+import { logger } from './logger.js';
+
+const log = logger.child('cache');
+
+export type QueryCacheConfig = {
+  enabled: boolean;
+  maxEntries: number;
+  maxBytes: number; // Approximate: the JSON size of the cached results
+  ttlSeconds: number;
+};
+
+export type QueryCacheStats = {
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null; // null before the first lookup
+  evictions: number; // Dropped to stay within the size limits
+  expirations: number;
+  invalidations: number; // Dropped because a tool wrote to the collection
+  embeddingFiles: number; // Uploaded files not yet seen embedded; their collections' results are not cached
+};
+
+// Tools whose writes can change query results; collection renames and new empty collections cannot
+export const CACHE_INVALIDATING_TOOLS = [
+  'delete_collection',
+  'add_file_to_collection',
+  'remove_file_from_collection',
+  'embed_texts',
+  'embed_files',
+  'sync_directory',
+  'import_collection',
+  'delete_file',
+];
+
+// Files not seen embedded within this long stop blocking caching; the TTL still bounds any staleness
+const EMBEDDING_TRACKING_MS = 10 * 60 * 1000;
+
+type CacheEntry = { backend: string; collectionId: string; results: QueryResult[]; bytes: number; expiresAt: number };
+
+// Sort object keys and drop undefined values, so equivalent payloads share a key
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => [key, normalize(item)]));
+  }
+  return value;
+}
+
+function cacheKey(backend: string, request: QueryRequest): string {
+  return JSON.stringify([backend, normalize({ ...request, queryText: request.queryText.trim() })]);
+}
+
+export class QueryCache {
+  // Map order is recency order: the first entry is the least recently used
+  private readonly entries = new Map<string, CacheEntry>();
+  // Bumped on every invalidation, so a query that overlapped a write does not store stale results
+  private readonly generations = new Map<string, number>();
+  // Files still embedding, by backend and collection, with the time they stop being tracked
+  private readonly embedding = new Map<string, Map<string, number>>();
+  private bytes = 0;
+  private counters = { hits: 0, misses: 0, evictions: 0, expirations: 0, invalidations: 0 };
+
+  constructor(private readonly config: QueryCacheConfig) {}
+
+  // Run a query through the cache; hits are copies, so callers may post-process them freely
+  async query(backend: string, client: VectraClient, request: QueryRequest): Promise<QueryResult[]> {
+    if (!this.config.enabled) return client.query(request);
+
+    const key = cacheKey(backend, request);
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.entries.delete(key);
+      this.entries.set(key, cached); // Now the most recently used
+      this.counters.hits++;
+      return structuredClone(cached.results);
+    }
+    if (cached) {
+      this.remove(key, cached);
+      this.counters.expirations++;
+    }
+    this.counters.misses++;
+
+    const generation = this.generation(backend, request.collectionId);
+    const results = await client.query(request);
+    // Results from before an upload finished embedding would stay stale for the whole TTL
+    if (this.generation(backend, request.collectionId) === generation && !this.isEmbedding(backend, request.collectionId)) {
+      this.store(key, { backend, collectionId: request.collectionId, results: structuredClone(results), bytes: JSON.stringify(results).length, expiresAt: Date.now() + this.config.ttlSeconds * 1000 });
+    }
+    return results;
+  }
+
+  // Drop the cached results of one collection
+  invalidateCollection(backend: string, collectionId: string) {
+    this.bump(JSON.stringify([backend, collectionId]));
+    this.invalidate(backend, entry => entry.collectionId === collectionId);
+  }
+
+  // Drop every cached result of a backend, for writes whose collections are unknown (e.g. delete_file)
+  invalidateBackend(backend: string) {
+    this.bump(JSON.stringify([backend]));
+    this.invalidate(backend, () => true);
+  }
+
+  // Stop caching a collection's results until its uploaded files are seen embedded (see fileSettled)
+  trackEmbedding(backend: string, collectionId: string, fileIds: string[]) {
+    if (!this.config.enabled || fileIds.length === 0) return;
+    const key = JSON.stringify([backend, collectionId]);
+    const files = this.embedding.get(key) ?? new Map<string, number>();
+    for (const fileId of fileIds) files.set(fileId, Date.now() + EMBEDDING_TRACKING_MS);
+    this.embedding.set(key, files);
+  }
+
+  // A tracked file finished embedding (or failed): drop what was cached for its collections before that
+  fileSettled(backend: string, fileId: string) {
+    for (const [key, files] of this.embedding) {
+      const [entryBackend, collectionId] = JSON.parse(key) as [string, string];
+      if (entryBackend !== backend || !files.delete(fileId)) continue;
+      if (files.size === 0) this.embedding.delete(key);
+      this.invalidateCollection(backend, collectionId);
+    }
+  }
+
+  stats(): QueryCacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      enabled: this.config.enabled,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxEntries: this.config.maxEntries,
+      maxBytes: this.config.maxBytes,
+      ttlSeconds: this.config.ttlSeconds,
+      ...this.counters,
+      hitRate: lookups > 0 ? this.counters.hits / lookups : null,
+      embeddingFiles: [...this.embedding.keys()].reduce((count, key) => {
+        this.pruneEmbedding(key);
+        return count + (this.embedding.get(key)?.size ?? 0);
+      }, 0),
+    };
+  }
+
+  private isEmbedding(backend: string, collectionId: string): boolean {
+    const key = JSON.stringify([backend, collectionId]);
+    this.pruneEmbedding(key);
+    return this.embedding.has(key);
+  }
+
+  // Forget files tracked for too long
+  private pruneEmbedding(key: string) {
+    const files = this.embedding.get(key);
+    if (!files) return;
+    const now = Date.now();
+    for (const [fileId, until] of files) {
+      if (until <= now) files.delete(fileId);
+    }
+    if (files.size === 0) this.embedding.delete(key);
+  }
+
+  // Changes whenever the collection or its whole backend is invalidated
+  private generation(backend: string, collectionId: string): string {
+    return `${this.generations.get(JSON.stringify([backend])) ?? 0}:${this.generations.get(JSON.stringify([backend, collectionId])) ?? 0}`;
+  }
+
+  private bump(generationKey: string) {
+    this.generations.set(generationKey, (this.generations.get(generationKey) ?? 0) + 1);
+  }
+
+  private invalidate(backend: string, matches: (entry: CacheEntry) => boolean) {
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.backend !== backend || !matches(entry)) continue;
+      this.remove(key, entry);
+      dropped++;
+    }
+    this.counters.invalidations += dropped;
+    if (dropped > 0) log.debug(`Invalidated ${dropped} cached queries`, { backend });
+  }
+
+  private store(key: string, entry: CacheEntry) {
+    if (entry.bytes > this.config.maxBytes) return; // Would evict everything else and still not fit
+    const existing = this.entries.get(key);
+    if (existing) this.remove(key, existing);
+    this.entries.set(key, entry);
+    this.bytes += entry.bytes;
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.config.maxEntries && this.bytes <= this.config.maxBytes) break;
+      this.remove(oldestKey, oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  private remove(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
@@ -1,4 +1,14 @@
-// Configuration constants for the Vectra MCP Server
+// Configuration for the Vectra MCP Server: environment constants, and the config file with its env overrides
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import YAML from 'yaml';
+import { validateAgainstSchema, type JsonSchema } from './schema.js';
+import { QueryOptionProperties } from './tools.js';
+import type { QueryOptionsArgs } from './validators.js';
+import type { PolicyConfig } from './policy.js';
+import type { AuditConfig } from './audit.js';
+import type { QueryCacheConfig } from './cache.js';
 
 // Load API URL from environment variable or use default (updated to new base path)
 export const VECTRA_API_URL = process.env.VECTRA_API_URL || 'http://localhost:3000/api/v1/vectra';
@@ -6,4 +16,361 @@ export const VECTRA_API_URL = process.env.VECTRA_API_URL || 'http://localhost:30
 // Load API Key from environment variable
 export const VECTRA_API_KEY = process.env.VECTRA_API_KEY;
 
-// Add other configurations here if needed in the future
+// Default limits applied when embed_files expands directories and glob patterns
+export const DEFAULT_MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024; // 5 MB
+export const DEFAULT_MAX_FILES = 500;
+
+// Default sync manifest file name, stored in the synced directory; never embedded itself
+export const DEFAULT_MANIFEST_FILENAME = '.vectra-sync.json';
+
+// Embedding status polling used by get_file_status and waitForCompletion
+export const DEFAULT_WAIT_TIMEOUT_SECONDS = 120;
+export const STATUS_POLL_INTERVAL_MS = 2000;
+
+// Read a numeric environment variable, falling back to a default when unset or invalid
+function numberFromEnv(name: string, defaultValue: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : defaultValue;
+}
+
+// Upload parallelism, retry/backoff and client-side rate limiting for the Vectra API
+export const UPLOAD_CONCURRENCY = numberFromEnv('VECTRA_UPLOAD_CONCURRENCY', 4);
+export const MAX_RETRIES = numberFromEnv('VECTRA_MAX_RETRIES', 3);
+export const RETRY_BASE_DELAY_MS = numberFromEnv('VECTRA_RETRY_BASE_DELAY_MS', 500);
+export const RETRY_MAX_DELAY_MS = numberFromEnv('VECTRA_RETRY_MAX_DELAY_MS', 30000);
+export const REQUESTS_PER_SECOND = numberFromEnv('VECTRA_REQUESTS_PER_SECOND', 10); // 0 disables the limiter
+
+// MCP transport: 'stdio' (default) or 'http' (SSE), overridable with the --transport, --host and --port flags
+export const MCP_TRANSPORT = process.env.VECTRA_MCP_TRANSPORT || 'stdio';
+export const MCP_HTTP_HOST = process.env.VECTRA_MCP_HOST || '127.0.0.1';
+export const MCP_HTTP_PORT = numberFromEnv('VECTRA_MCP_PORT', 3001);
+export const MCP_AUTH_TOKEN = process.env.VECTRA_MCP_AUTH_TOKEN || undefined; // Bearer token required from HTTP clients
+export const MCP_CORS_ORIGINS = (process.env.VECTRA_MCP_CORS_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+// Logging: minimum level of the JSON log records, and a file to append them to instead of stderr
+export const LOG_LEVEL = process.env.VECTRA_LOG_LEVEL || 'info';
+export const LOG_FILE = process.env.VECTRA_LOG_FILE || undefined;
+
+// --- Config File ---
+
+// Name of the backend profile built from VECTRA_API_URL / VECTRA_API_KEY
+export const LEGACY_BACKEND_NAME = 'default';
+
+// Applied when neither the config file nor VECTRA_REQUEST_TIMEOUT_MS sets a timeout
+export const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+
+// Audit log location and rotation, unless the config file or the VECTRA_AUDIT_* variables say otherwise
+export const DEFAULT_AUDIT_LOG_PATH = path.join(os.homedir(), '.vectra-mcp', 'audit.jsonl');
+export const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024; // 10 MB
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+// In-memory query cache limits, unless the config file or the VECTRA_QUERY_CACHE_* variables say otherwise
+export const DEFAULT_QUERY_CACHE_MAX_ENTRIES = 500;
+export const DEFAULT_QUERY_CACHE_MAX_BYTES = 50 * 1024 * 1024; // 50 MB
+export const DEFAULT_QUERY_CACHE_TTL_SECONDS = 300;
+
+// Raised for an unusable configuration; the message lists every problem found
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export type TlsSettings = { ca?: Buffer; cert?: Buffer; key?: Buffer; rejectUnauthorized: boolean };
+
+// Connection settings of one backend: the global request settings with the backend's own on top
+export type RequestSettings = { timeoutMs: number; tls?: TlsSettings; proxy?: string };
+
+export type BackendProfile = {
+  name: string;
+  baseURL: string;
+  apiKey: string;
+  defaultCollectionId?: string; // Used by tools that accept a collectionId when none is given
+  request: RequestSettings;
+};
+
+export type QueryDefaults = Partial<Omit<QueryOptionsArgs, 'queryText'>>;
+
+export type ServerConfig = {
+  backends: BackendProfile[];
+  defaultBackend?: string;
+  queryDefaults: QueryDefaults;
+  policy: PolicyConfig;
+  audit: AuditConfig;
+  queryCache: QueryCacheConfig;
+};
+
+const RequestProperties = {
+  timeoutMs: { type: 'integer', minimum: 1 },
+  proxy: { type: 'string', minLength: 1 },
+  tls: {
+    type: 'object',
+    properties: {
+      caFile: { type: 'string', minLength: 1 },
+      certFile: { type: 'string', minLength: 1 },
+      keyFile: { type: 'string', minLength: 1 },
+      rejectUnauthorized: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+} as const;
+
+const { queryText, ...QueryDefaultProperties } = QueryOptionProperties;
+
+const ConfigFileSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    backends: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', minLength: 1 },
+          apiKey: { type: 'string', minLength: 1 },
+          defaultCollectionId: { type: 'string', minLength: 1 },
+          ...RequestProperties,
+        },
+        additionalProperties: false,
+      },
+    },
+    defaultBackend: { type: 'string', minLength: 1 },
+    defaultCollectionId: { type: 'string', minLength: 1 },
+    request: { type: 'object', properties: RequestProperties, additionalProperties: false },
+    queryDefaults: { type: 'object', properties: QueryDefaultProperties, additionalProperties: false },
+    policy: {
+      type: 'object',
+      properties: {
+        readOnly: { type: 'boolean' },
+        allowTools: { type: 'array', items: { type: 'string' } },
+        denyTools: { type: 'array', items: { type: 'string' } },
+        allowedCollections: { type: 'array', items: { type: 'string' } },
+        confirmDestructive: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    audit: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        path: { type: 'string', minLength: 1 },
+        maxBytes: { type: 'integer', minimum: 1 },
+        maxFiles: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    queryCache: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        maxEntries: { type: 'integer', minimum: 1 },
+        maxBytes: { type: 'integer', minimum: 1 },
+        ttlSeconds: { type: 'number', exclusiveMinimum: 0 },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+type TlsFileOptions = { caFile?: string; certFile?: string; keyFile?: string; rejectUnauthorized?: boolean };
+type RequestFileOptions = { timeoutMs?: number; proxy?: string; tls?: TlsFileOptions };
+type BackendFileOptions = RequestFileOptions & { url?: string; apiKey?: string; defaultCollectionId?: string };
+type ConfigFile = {
+  backends?: Record<string, BackendFileOptions>;
+  defaultBackend?: string;
+  defaultCollectionId?: string;
+  request?: RequestFileOptions;
+  queryDefaults?: QueryDefaults;
+  policy?: Partial<PolicyConfig>;
+  audit?: Partial<AuditConfig>;
+  queryCache?: Partial<QueryCacheConfig>;
+};
+
+// Parse a JSON or YAML config file (YAML unless the extension is .json)
+function readConfigFile(configPath: string): ConfigFile {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(configPath, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = path.extname(configPath).toLowerCase() === '.json' ? JSON.parse(raw) : YAML.parse(raw);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const errors = validateAgainstSchema(ConfigFileSchema, parsed ?? {});
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid config file ${configPath}:\n- ${errors.join('\n- ')}`);
+  }
+  return (parsed ?? {}) as ConfigFile;
+}
+
+// Overlay the environment variables on the config file; environment values win
+function applyEnvOverrides(file: ConfigFile, env: NodeJS.ProcessEnv): ConfigFile {
+  const backends = { ...file.backends };
+  const setBackend = (name: string, field: 'url' | 'apiKey', value: string) => {
+    backends[name] = { ...backends[name], [field]: value };
+  };
+  // VECTRA_API_URL / VECTRA_API_KEY configure the 'default' backend
+  if (env.VECTRA_API_KEY) {
+    setBackend(LEGACY_BACKEND_NAME, 'apiKey', env.VECTRA_API_KEY);
+    setBackend(LEGACY_BACKEND_NAME, 'url', env.VECTRA_API_URL || backends[LEGACY_BACKEND_NAME]?.url || VECTRA_API_URL);
+  } else if (env.VECTRA_API_URL && backends[LEGACY_BACKEND_NAME]) {
+    setBackend(LEGACY_BACKEND_NAME, 'url', env.VECTRA_API_URL);
+  }
+  // Named profiles: VECTRA_BACKEND_<NAME>_URL / VECTRA_BACKEND_<NAME>_API_KEY (names are lowercased)
+  for (const [key, value] of Object.entries(env)) {
+    const match = /^VECTRA_BACKEND_(.+)_(URL|API_KEY)$/.exec(key);
+    if (match && value) setBackend(match[1].toLowerCase(), match[2] === 'URL' ? 'url' : 'apiKey', value);
+  }
+
+  const request: RequestFileOptions = { ...file.request, tls: { ...file.request?.tls } };
+  if (env.VECTRA_REQUEST_TIMEOUT_MS) request.timeoutMs = Number(env.VECTRA_REQUEST_TIMEOUT_MS);
+  if (env.VECTRA_PROXY) request.proxy = env.VECTRA_PROXY;
+  if (env.VECTRA_CA_FILE) request.tls!.caFile = env.VECTRA_CA_FILE;
+  if (env.VECTRA_CLIENT_CERT_FILE) request.tls!.certFile = env.VECTRA_CLIENT_CERT_FILE;
+  if (env.VECTRA_CLIENT_KEY_FILE) request.tls!.keyFile = env.VECTRA_CLIENT_KEY_FILE;
+  if (env.VECTRA_TLS_REJECT_UNAUTHORIZED) request.tls!.rejectUnauthorized = env.VECTRA_TLS_REJECT_UNAUTHORIZED !== 'false';
+
+  const policy = { ...file.policy };
+  const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+  if (env.VECTRA_READ_ONLY) policy.readOnly = env.VECTRA_READ_ONLY === 'true';
+  if (env.VECTRA_ALLOW_TOOLS) policy.allowTools = list(env.VECTRA_ALLOW_TOOLS);
+  if (env.VECTRA_DENY_TOOLS) policy.denyTools = list(env.VECTRA_DENY_TOOLS);
+  if (env.VECTRA_ALLOWED_COLLECTIONS) policy.allowedCollections = list(env.VECTRA_ALLOWED_COLLECTIONS);
+  if (env.VECTRA_CONFIRM_DESTRUCTIVE) policy.confirmDestructive = env.VECTRA_CONFIRM_DESTRUCTIVE !== 'false';
+
+  const audit = { ...file.audit };
+  if (env.VECTRA_AUDIT_ENABLED) audit.enabled = env.VECTRA_AUDIT_ENABLED !== 'false';
+  if (env.VECTRA_AUDIT_LOG) audit.path = env.VECTRA_AUDIT_LOG;
+  if (env.VECTRA_AUDIT_MAX_BYTES) audit.maxBytes = Number(env.VECTRA_AUDIT_MAX_BYTES);
+  if (env.VECTRA_AUDIT_MAX_FILES) audit.maxFiles = Number(env.VECTRA_AUDIT_MAX_FILES);
+
+  const queryCache = { ...file.queryCache };
+  if (env.VECTRA_QUERY_CACHE_ENABLED) queryCache.enabled = env.VECTRA_QUERY_CACHE_ENABLED !== 'false';
+  if (env.VECTRA_QUERY_CACHE_MAX_ENTRIES) queryCache.maxEntries = Number(env.VECTRA_QUERY_CACHE_MAX_ENTRIES);
+  if (env.VECTRA_QUERY_CACHE_MAX_BYTES) queryCache.maxBytes = Number(env.VECTRA_QUERY_CACHE_MAX_BYTES);
+  if (env.VECTRA_QUERY_CACHE_TTL_SECONDS) queryCache.ttlSeconds = Number(env.VECTRA_QUERY_CACHE_TTL_SECONDS);
+
+  return {
+    ...file,
+    backends,
+    request,
+    policy,
+    audit,
+    queryCache,
+    defaultBackend: env.VECTRA_DEFAULT_BACKEND || file.defaultBackend,
+    defaultCollectionId: env.VECTRA_DEFAULT_COLLECTION_ID || file.defaultCollectionId,
+  };
+}
+
+// Resolve one backend's request settings, reading the TLS files (relative paths are relative to the config file)
+function resolveRequestSettings(name: string, global: RequestFileOptions, own: RequestFileOptions, baseDir: string, errors: string[]): RequestSettings {
+  const timeoutMs = own.timeoutMs ?? global.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) errors.push(`backend "${name}": timeoutMs must be a positive integer`);
+
+  const proxy = own.proxy ?? global.proxy;
+  if (proxy !== undefined) {
+    try {
+      const protocol = new URL(proxy).protocol;
+      if (protocol !== 'http:' && protocol !== 'https:') errors.push(`backend "${name}": proxy must be an http:// or https:// URL`);
+    } catch {
+      errors.push(`backend "${name}": proxy "${proxy}" is not a valid URL`);
+    }
+  }
+
+  const tls = { ...global.tls, ...own.tls };
+  const readTlsFile = (field: 'caFile' | 'certFile' | 'keyFile') => {
+    const file = tls[field];
+    if (!file) return undefined;
+    try {
+      return fs.readFileSync(path.resolve(baseDir, file));
+    } catch (error) {
+      const reason = error instanceof Error ? (error as NodeJS.ErrnoException).code || error.message : 'Unknown error';
+      errors.push(`backend "${name}": cannot read tls.${field} ${file}: ${reason}`);
+      return undefined;
+    }
+  };
+  if (Boolean(tls.certFile) !== Boolean(tls.keyFile)) errors.push(`backend "${name}": tls.certFile and tls.keyFile must be set together`);
+  const hasTls = tls.caFile || tls.certFile || tls.keyFile || tls.rejectUnauthorized === false;
+  return {
+    timeoutMs,
+    proxy,
+    tls: hasTls
+      ? { ca: readTlsFile('caFile'), cert: readTlsFile('certFile'), key: readTlsFile('keyFile'), rejectUnauthorized: tls.rejectUnauthorized ?? true }
+      : undefined,
+  };
+}
+
+/**
+ * Load the server configuration from an optional JSON/YAML config file and the environment.
+ * Every problem is collected into a single ConfigError, so a broken deployment is fixed in one pass.
+ */
+export function loadConfig(configPath?: string, env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const resolvedPath = configPath ? path.resolve(configPath) : undefined;
+  const file = applyEnvOverrides(resolvedPath ? readConfigFile(resolvedPath) : {}, env);
+  const baseDir = resolvedPath ? path.dirname(resolvedPath) : process.cwd();
+  const errors: string[] = [];
+
+  const backends = Object.entries(file.backends ?? {}).map(([name, options]): BackendProfile => {
+    if (!options.url) errors.push(`backend "${name}": url is missing (set it in the config file or VECTRA_BACKEND_${name.toUpperCase()}_URL)`);
+    if (!options.apiKey) {
+      const envName = name === LEGACY_BACKEND_NAME ? 'VECTRA_API_KEY' : `VECTRA_BACKEND_${name.toUpperCase()}_API_KEY`;
+      errors.push(`backend "${name}": apiKey is missing (set it in the config file or ${envName})`);
+    }
+    return {
+      name,
+      baseURL: options.url ?? '',
+      apiKey: options.apiKey ?? '',
+      request: resolveRequestSettings(name, file.request ?? {}, options, baseDir, errors),
+      defaultCollectionId: options.defaultCollectionId,
+    };
+  });
+  if (backends.length === 0) {
+    errors.push('no Vectra backend is configured: set VECTRA_API_KEY, define backends in a config file (--config / VECTRA_CONFIG), or set VECTRA_BACKEND_<NAME>_URL and VECTRA_BACKEND_<NAME>_API_KEY');
+  }
+
+  // The top-level default collection belongs to the default backend, unless that backend sets its own
+  if (file.defaultCollectionId) {
+    const defaultName = file.defaultBackend ?? (backends.length === 1 ? backends[0].name : LEGACY_BACKEND_NAME);
+    const profile = backends.find(backend => backend.name === defaultName);
+    if (profile) profile.defaultCollectionId ??= file.defaultCollectionId;
+  }
+
+  const audit: AuditConfig = {
+    enabled: file.audit?.enabled ?? true,
+    path: file.audit?.path ? path.resolve(baseDir, file.audit.path) : DEFAULT_AUDIT_LOG_PATH,
+    maxBytes: file.audit?.maxBytes ?? DEFAULT_AUDIT_MAX_BYTES,
+    maxFiles: file.audit?.maxFiles ?? DEFAULT_AUDIT_MAX_FILES,
+  };
+  if (!Number.isInteger(audit.maxBytes) || audit.maxBytes <= 0) errors.push('audit: maxBytes must be a positive integer');
+  if (!Number.isInteger(audit.maxFiles) || audit.maxFiles < 0) errors.push('audit: maxFiles must be a non-negative integer');
+
+  const queryCache: QueryCacheConfig = {
+    enabled: file.queryCache?.enabled ?? true,
+    maxEntries: file.queryCache?.maxEntries ?? DEFAULT_QUERY_CACHE_MAX_ENTRIES,
+    maxBytes: file.queryCache?.maxBytes ?? DEFAULT_QUERY_CACHE_MAX_BYTES,
+    ttlSeconds: file.queryCache?.ttlSeconds ?? DEFAULT_QUERY_CACHE_TTL_SECONDS,
+  };
+  if (!Number.isInteger(queryCache.maxEntries) || queryCache.maxEntries <= 0) errors.push('queryCache: maxEntries must be a positive integer');
+  if (!Number.isInteger(queryCache.maxBytes) || queryCache.maxBytes <= 0) errors.push('queryCache: maxBytes must be a positive integer');
+  if (!(queryCache.ttlSeconds > 0)) errors.push('queryCache: ttlSeconds must be a positive number');
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors.length === 1 ? errors[0] : `\n- ${errors.join('\n- ')}`);
+  }
+  return {
+    backends,
+    defaultBackend: file.defaultBackend,
+    queryDefaults: file.queryDefaults ?? {},
+    policy: { readOnly: false, confirmDestructive: true, ...file.policy },
+    audit,
+    queryCache,
+  };
+}
+
+// Config file path from the --config flag's value or VECTRA_CONFIG
+export const VECTRA_CONFIG = process.env.VECTRA_CONFIG || undefined;
@@ -0,0 +1,311 @@
+// Text extraction for local files before upload (PDF, DOCX, HTML, EPUB, CSV, JSON, plain text)
+import path from 'path';
+
+export type ExtractionResult = {
+  text: string;
+  metadata: Record<string, string>; // Format-specific metadata (format, title, author, page_count, ...)
+};
+
+export type Extractor = {
+  name: string;
+  extensions: string[]; // Lower-case, including the dot (e.g. '.pdf')
+  sniff?: (buffer: Buffer) => boolean; // Recognize the format from the file content
+  extract: (buffer: Buffer, filePath: string) => Promise<ExtractionResult>;
+};
+
+// Registered extractors, checked in order (content sniffing first, then extension)
+const extractors: Extractor[] = [];
+
+// Register an extractor; later registrations take precedence over earlier ones
+export function registerExtractor(extractor: Extractor) {
+  extractors.unshift(extractor);
+}
+
+// --- Helpers ---
+
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+// Whether a buffer is a zip archive with the given entry; entry names are stored uncompressed in the headers
+function zipHasEntry(buffer: Buffer, entryName: string): boolean {
+  return buffer.subarray(0, 4).equals(ZIP_MAGIC) && buffer.includes(entryName, 0, 'latin1');
+}
+
+// Stringify metadata values, dropping empty ones
+function withMetadata(metadata: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value === undefined || value === null) continue;
+    const str = String(value).trim();
+    if (str !== '') result[key] = str;
+  }
+  return result;
+}
+
+// Decode the handful of XML entities found in document metadata
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// Read the text content of the first matching XML element (namespace prefix optional)
+function xmlElementText(xml: string, localName: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${localName}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${localName}>`));
+  return match ? decodeXmlEntities(match[1]).trim() : undefined;
+}
+
+// Convert HTML markup to readable plain text
+async function htmlToText(html: string): Promise<string> {
+  const { convert } = await import('html-to-text');
+  return convert(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'img', format: 'skip' },
+      // Keep headings in their original case
+      ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map(selector => ({ selector, options: { uppercase: false } })),
+    ],
+  });
+}
+
+// Load a zip archive (DOCX, EPUB)
+async function loadZip(buffer: Buffer) {
+  const { default: JSZip } = await import('jszip');
+  return JSZip.loadAsync(buffer);
+}
+
+// Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+function parseCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// --- Built-in Extractors ---
+
+const plainTextExtractor: Extractor = {
+  name: 'text',
+  extensions: ['.txt', '.md', '.markdown', '.rst'],
+  extract: async (buffer) => ({ text: buffer.toString('utf-8'), metadata: { format: 'text' } }),
+};
+
+const pdfExtractor: Extractor = {
+  name: 'pdf',
+  extensions: ['.pdf'],
+  sniff: (buffer) => buffer.subarray(0, 5).toString('latin1') === '%PDF-',
+  extract: async (buffer) => {
+    const { getDocumentProxy, extractText, getMeta } = await import('unpdf');
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { totalPages, text } = await extractText(pdf, { mergePages: false });
+    const { info } = await getMeta(pdf);
+    return {
+      // Separate pages with a form feed so page boundaries survive chunking
+      text: text.map(page => page.trim()).join('\n\f\n'),
+      metadata: withMetadata({ format: 'pdf', page_count: totalPages, title: info?.Title, author: info?.Author }),
+    };
+  },
+};
+
+const docxExtractor: Extractor = {
+  name: 'docx',
+  extensions: ['.docx'],
+  // Any zip archive with a main document part, e.g. a .docx saved under another name
+  sniff: (buffer) => zipHasEntry(buffer, 'word/document.xml'),
+  extract: async (buffer) => {
+    const mammoth = await import('mammoth');
+    const { value } = await mammoth.extractRawText({ buffer });
+    const zip = await loadZip(buffer);
+    const coreXml = await zip.file('docProps/core.xml')?.async('string');
+    const appXml = await zip.file('docProps/app.xml')?.async('string');
+    return {
+      text: value,
+      metadata: withMetadata({
+        format: 'docx',
+        title: coreXml && xmlElementText(coreXml, 'title'),
+        author: coreXml && xmlElementText(coreXml, 'creator'),
+        page_count: appXml && xmlElementText(appXml, 'Pages'),
+      }),
+    };
+  },
+};
+
+const htmlExtractor: Extractor = {
+  name: 'html',
+  extensions: ['.html', '.htm', '.xhtml'],
+  sniff: (buffer) => /^\s*(<!doctype html|<html[\s>])/i.test(buffer.subarray(0, 512).toString('utf-8')),
+  extract: async (buffer) => {
+    const html = buffer.toString('utf-8');
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    const author = html.match(/<meta\s+[^>]*name=["']author["'][^>]*content=["']([^"']*)["']/i)?.[1];
+    return {
+      text: await htmlToText(html),
+      metadata: withMetadata({ format: 'html', title: title && decodeXmlEntities(title), author: author && decodeXmlEntities(author) }),
+    };
+  },
+};
+
+const epubExtractor: Extractor = {
+  name: 'epub',
+  extensions: ['.epub'],
+  // EPUB archives start with an uncompressed "mimetype" entry
+  sniff: (buffer) => buffer.subarray(0, 4).equals(ZIP_MAGIC) && buffer.subarray(30, 58).toString('latin1') === 'mimetypeapplication/epub+zip',
+  extract: async (buffer) => {
+    const zip = await loadZip(buffer);
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    const opfPath = container?.match(/full-path=["']([^"']+)["']/)?.[1];
+    const opf = opfPath ? await zip.file(opfPath)?.async('string') : undefined;
+    if (!opfPath || !opf) {
+      throw new Error('Invalid EPUB: package document not found');
+    }
+
+    // Resolve the reading order from the spine
+    const opfDir = path.posix.dirname(opfPath);
+    const manifest = new Map<string, string>();
+    for (const item of opf.matchAll(/<item\b[^>]*>/g)) {
+      const id = item[0].match(/\bid=["']([^"']+)["']/)?.[1];
+      const href = item[0].match(/\bhref=["']([^"']+)["']/)?.[1];
+      if (id && href) manifest.set(id, decodeURIComponent(href));
+    }
+    const chapters: string[] = [];
+    for (const itemref of opf.matchAll(/<itemref\b[^>]*\bidref=["']([^"']+)["']/g)) {
+      const href = manifest.get(itemref[1]);
+      const chapter = href ? await zip.file(path.posix.join(opfDir, href))?.async('string') : undefined;
+      if (chapter) chapters.push((await htmlToText(chapter)).trim());
+    }
+
+    return {
+      text: chapters.filter(Boolean).join('\n\n'),
+      metadata: withMetadata({
+        format: 'epub',
+        title: xmlElementText(opf, 'title'),
+        author: xmlElementText(opf, 'creator'),
+        chapter_count: chapters.length,
+      }),
+    };
+  },
+};
+
+const csvExtractor: Extractor = {
+  name: 'csv',
+  extensions: ['.csv', '.tsv'],
+  extract: async (buffer, filePath) => {
+    const delimiter = path.extname(filePath).toLowerCase() === '.tsv' ? '\t' : ',';
+    const [header = [], ...rows] = parseCsv(buffer.toString('utf-8'), delimiter);
+    // One line per row, with each value labelled by its column name
+    const text = rows
+      .map(row => row.map((cell, i) => `${header[i] || `column_${i + 1}`}: ${cell}`).join('; '))
+      .join('\n');
+    return {
+      text,
+      metadata: withMetadata({ format: 'csv', row_count: rows.length, columns: header.join(', ') }),
+    };
+  },
+};
+
+const jsonExtractor: Extractor = {
+  name: 'json',
+  extensions: ['.json', '.jsonl', '.ndjson'],
+  extract: async (buffer, filePath) => {
+    const content = buffer.toString('utf-8');
+    const isLines = ['.jsonl', '.ndjson'].includes(path.extname(filePath).toLowerCase());
+    let records: unknown[];
+    try {
+      records = isLines
+        ? content.split(/\r?\n/).filter(line => line.trim() !== '').map(line => JSON.parse(line))
+        : [JSON.parse(content)];
+    } catch {
+      // Not strict JSON (e.g. a tsconfig.json with comments, or a bad line): upload the raw text instead
+      return { text: content, metadata: { format: 'text' } };
+    }
+    // Flatten each record into "path: value" lines so keys stay next to their values
+    const lines: string[] = [];
+    const flatten = (value: unknown, prefix: string) => {
+      if (value !== null && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+          flatten(child, Array.isArray(value) ? `${prefix}[${key}]` : (prefix ? `${prefix}.${key}` : key));
+        }
+      } else {
+        lines.push(`${prefix || 'value'}: ${value}`);
+      }
+    };
+    const text = records.map(record => {
+      lines.length = 0;
+      flatten(record, '');
+      return lines.join('\n');
+    }).join('\n\n');
+    return { text, metadata: withMetadata({ format: 'json', record_count: records.length }) };
+  },
+};
+
+// Register built-ins, most generic first so specific formats take precedence
+[plainTextExtractor, jsonExtractor, csvExtractor, htmlExtractor, epubExtractor, docxExtractor, pdfExtractor].forEach(registerExtractor);
+
+// --- Lookup ---
+
+// Find an extractor for a file: content sniffing first, then the file extension
+export function findExtractor(filePath: string, buffer: Buffer): Extractor | undefined {
+  const sniffed = extractors.find(e => e.sniff?.(buffer));
+  if (sniffed) return sniffed;
+  const ext = path.extname(filePath).toLowerCase();
+  return extractors.find(e => e.extensions.includes(ext));
+}
+
+// Heuristic for binary content: NUL bytes in the first 8 KB
+function looksBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8192).includes(0);
+}
+
+/**
+ * Extract clean text and format metadata from a file's raw content.
+ * Unknown formats are treated as UTF-8 text unless they look binary.
+ */
+export async function extractText(filePath: string, buffer: Buffer): Promise<ExtractionResult> {
+  const extractor = findExtractor(filePath, buffer);
+  if (extractor) {
+    try {
+      return await extractor.extract(buffer, filePath);
+    } catch (error) {
+      throw new Error(`Failed to extract ${extractor.name} content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  if (looksBinary(buffer)) {
+    throw new Error(`Unsupported binary format (${path.extname(filePath) || 'no extension'})`);
+  }
+  return { text: buffer.toString('utf-8'), metadata: {} };
+}
@@ -1,69 +1,107 @@
-import type { AxiosInstance } from 'axios';
-import axios, { AxiosError } from 'axios'; // Added axios import
-import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
 import fs from 'fs/promises';
-import FormData from 'form-data';
 import path from 'path';
+import type { ApiMessage, Collection, CollectionStats, GraphEdge, GraphNeighbor, GraphNode, GraphPath, VectraClient, VectraFile } from './client.js';
+import type { FederatedQueryResponse } from './query.js';
+import type { ProcessedQueryResult } from './ranking.js';
+import { pageHint, type Page } from './listing.js';
+import type { BackendStatus } from './backends.js';
+import type { AuditEntry } from './audit.js';
+import type { QueryCacheStats } from './cache.js';
+import { resolveSources, type SourceResolutionOptions } from './sources.js';
+import { extractText } from './extractors.js';
+import { appendEmbeddingStatuses, type FileStatus, type WaitOptions } from './status.js';
+import { mapWithConcurrency } from './retry.js';
+import { UPLOAD_CONCURRENCY } from './config.js';
+import { cancellationNote, withProgress, type BatchControl } from './progress.js';
+import { buildToolResponse, type OutputFormat } from './output.js';
+import { logger } from './logger.js';
+
+const log = logger.child('tools');
 
 // --- Response Formatting ---
 
-// Helper to format tool results concisely
-export function formatResponse(toolName: string, responseData: any): { content: Array<{ type: 'text', text: string }> } {
+// Helper to format tool results concisely, alongside a normalized JSON payload.
+// responseData is the tool's client result; each case narrows it to that tool's type
+export function formatResponse(toolName: string, responseData: unknown, format: OutputFormat = 'markdown') {
   let summary = `Tool '${toolName}' executed successfully.`; // Default message
+  let data: unknown = responseData; // Structured payload, normalized per tool below
 
   try {
     switch (toolName) {
-      case 'list_collections':
-        if (Array.isArray(responseData) && responseData.length > 0) {
-          summary = "Collections:\n" + responseData.map((col: any) => `- ${col.name} (ID: ${col.id})`).join('\n');
-        } else if (Array.isArray(responseData)) {
-          summary = "No collections found.";
-        } else if (responseData?.data?.collections && Array.isArray(responseData.data.collections)) {
-           // Handle potential nesting like { status: 'success', data: { collections: [...] } }
-           if (responseData.data.collections.length > 0) {
-             summary = "Collections:\n" + responseData.data.collections.map((col: any) => `- ${col.name} (ID: ${col.id})`).join('\n');
-           } else {
-             summary = "No collections found.";
-           }
-        }
+      case 'list_collections': {
+        const page = responseData as Page<Collection>;
+        data = { collections: page.items, page: pageData(page) };
+        summary = page.items.length > 0
+          ? "Collections:\n" + page.items.map(col => `- ${col.name} (ID: ${col.id})`).join('\n')
+          : "No collections found.";
+        summary = [summary, pageHint(page)].filter(Boolean).join('\n\n');
         break;
-      case 'create_collection':
-        if (responseData?.id && responseData?.name) {
-          summary = `Created collection "${responseData.name}" (ID: ${responseData.id}).`;
+      }
+      case 'create_collection': {
+        const collection = responseData as Collection | undefined;
+        data = { collection };
+        if (collection?.id && collection?.name) {
+          summary = `Created collection "${collection.name}" (ID: ${collection.id}).`;
         }
         break;
+      }
+      case 'update_collection': {
+        const collection = responseData as Collection | undefined;
+        data = { collection };
+        summary = `Updated collection "${collection?.name ?? 'unknown'}" (ID: ${collection?.id ?? 'unknown'}).`;
+        break;
+      }
+      case 'delete_collection':
+        summary = `Collection deleted successfully. Its files were not deleted.`;
+        data = { deleted: true };
+        break;
+      case 'get_collection_stats': {
+        const stats = responseData as CollectionStats;
+        data = { stats };
+        summary = [
+          `Collection ${stats.collectionId}:`,
+          `- Files: ${stats.fileCount}`,
+          `- Chunks: ${stats.chunkCount ?? 'N/A'}`,
+          `- Total size: ${stats.totalBytes !== null ? formatBytes(stats.totalBytes) : 'N/A'}`,
+          `- Last updated: ${stats.lastUpdated ?? 'N/A'}`,
+        ].join('\n');
+        break;
+      }
       case 'add_file_to_collection':
-        summary = responseData?.message || `File successfully added to collection.`;
+        summary = (responseData as ApiMessage | undefined)?.message || `File successfully added to collection.`;
+        data = { added: true, message: summary };
         break;
-      case 'list_files_in_collection':
-        let filesToList = null;
-        if (responseData?.data?.files && Array.isArray(responseData.data.files)) {
-          filesToList = responseData.data.files;
-        } else if (responseData?.files && Array.isArray(responseData.files)) {
-          filesToList = responseData.files;
-        } else if (Array.isArray(responseData)) {
-          filesToList = responseData;
-        }
-
-        if (filesToList && filesToList.length > 0) {
-          summary = `Files in collection:\n` + filesToList.map((file: any) => {
+      case 'remove_file_from_collection':
+        summary = `File removed from collection. The file itself was not deleted.`;
+        data = { removed: true };
+        break;
+      case 'list_files_in_collection': {
+        const page = responseData as Page<VectraFile>;
+        data = { files: page.items, page: pageData(page) };
+        if (page.items.length > 0) {
+          summary = `Files in collection:\n` + page.items.map(file => {
             let line = `- ${file.filename || 'Unknown filename'}`;
             if (file.id) {
               line += ` (ID: ${file.id})`;
             }
             return line;
           }).join('\n');
-        } else if (filesToList) { // It was an array, but empty
+        } else {
           summary = "No files found in this collection.";
         }
-        // If filesToList is null, the default summary "Tool executed successfully" will be used,
-        // or it will fall through to the generic error handling if responseData is not structured as expected.
+        summary = [summary, pageHint(page)].filter(Boolean).join('\n\n');
         break;
+      }
       case 'query_collection':
-        // Expect responseData to be the array of results directly
+        // responseData is the array of results, unwrapped by the client
         if (Array.isArray(responseData)) {
-          const results = responseData;
+          const results = responseData as ProcessedQueryResult[];
           let synthesizedAnswer = results[0]?.synthesized_answer; // Check if synthesized answer exists on the first result
+          data = {
+            synthesizedAnswer: synthesizedAnswer ?? null,
+            results: results.map(queryHitData),
+          };
 
           if (results.length > 0) {
             // Start summary with synthesized answer if available
@@ -71,213 +109,275 @@ export function formatResponse(toolName: string, responseData: any): { content:
               ? `**Synthesized Answer:**\n${synthesizedAnswer}\n\n---\n\n**Supporting Results:**\n`
               : "Query Results:\n";
 
-            summary += results.map((res: any, index: number) => {
-              const vectorId = res.vector_id || 'N/A';
-              const distance = res.distance?.toFixed(4) || 'N/A';
-              const score = res.score?.toFixed(4) || 'N/A'; // Extract score
-              const metadata = res.metadata || {};
-              const text = metadata.chunk_text || 'No text found';
-              const keywords = metadata.excerptKeywords;
-              const questions = metadata.questionsThisExcerptCanAnswer;
-
-              // Build the output string using Markdown
-              let outputParts = [`### Result ${index + 1}`]; // Markdown heading
-              outputParts.push(`**Vector ID:** ${vectorId}`); // Add Vector ID
-              outputParts.push(`**Distance:** ${distance}`);
-              outputParts.push(`**Score:** ${score}`); // Add Score
-              outputParts.push(`**Text:**\n\`\`\`\n${text}\n\`\`\``); // Code block for text
-              if (keywords) {
-                outputParts.push(`**Keywords:**\n${keywords}`);
-              }
-               if (questions) {
-                  outputParts.push(`**Questions Answered:**\n${questions}`);
-               }
-               // --- Add ArangoDB Node Data to Output ---
-                if (metadata.arangodb_node) {
-                  outputParts.push(`**ArangoDB Node:**\n\`\`\`json\n${JSON.stringify(metadata.arangodb_node, null, 2)}\n\`\`\``);
-                }
-                // --- Add ArangoDB Neighbors Data to Output ---
-                if (metadata.arangodb_neighbors && Array.isArray(metadata.arangodb_neighbors) && metadata.arangodb_neighbors.length > 0) {
-                   outputParts.push(`**ArangoDB Neighbors (${metadata.arangodb_neighbors.length}):**\n\`\`\`json\n${JSON.stringify(metadata.arangodb_neighbors, null, 2)}\n\`\`\``);
-                }
-                // --- End Add ArangoDB Neighbors Data ---
-                return outputParts.join('\n\n'); // Join parts with double newline for spacing
-              }).join('\n\n---\n\n'); // Separate results with a horizontal rule
+            summary += results.map((res: ProcessedQueryResult, index: number) => formatQueryHit(res, index)).join('\n\n---\n\n'); // Separate results with a horizontal rule
           } else {
             summary = "No relevant results found for the query in this collection.";
           }
         }
         break;
+      case 'query_collections': {
+        const { results, answers, failures } = responseData as FederatedQueryResponse;
+        data = {
+          answers,
+          results: results.map((hit, index) => ({ ...queryHitData(hit, index), collections: hit.source_collections, fusedScore: hit.fused_score })),
+          failures,
+        };
+
+        summary = answers.map(a => `**Synthesized Answer (collection ${a.collectionId}):**\n${a.answer}\n\n---\n\n`).join('');
+        summary += results.length > 0
+          ? (answers.length > 0 ? "**Merged Results:**\n" : "Merged Query Results:\n") + results.map((hit, index) => formatQueryHit(hit, index, [
+              `**Collections:** ${hit.source_collections.join(', ')}`,
+              `**Fused Score:** ${hit.fused_score.toFixed(4)}`,
+            ])).join('\n\n---\n\n')
+          : "No relevant results found for the query in these collections.";
+        if (failures.length > 0) {
+          summary += `\n\nFailed collections: ${failures.map(f => `${f.collectionId} (${f.error})`).join(', ')}`;
+        }
+        break;
+      }
        case 'delete_file':
-           // API returns 204 No Content, so responseData will be empty on success
+           // API returns 204 No Content, so there is no response data on success
            summary = `File deleted successfully.`;
+           data = { deleted: true };
            break;
-      case 'get_arangodb_node':
-        if (responseData?.data) { // Assuming backend returns { status: 'success', data: nodeData }
-          summary = `ArangoDB Node Data:\n\`\`\`json\n${JSON.stringify(responseData.data, null, 2)}\n\`\`\``;
-        } else {
-          summary = `Could not retrieve data for the specified ArangoDB node. Response: ${JSON.stringify(responseData)}`;
-        }
+      case 'list_backends': {
+        const backends = responseData as BackendStatus[];
+        data = { backends };
+        summary = "Vectra backends:\n" + backends.map(backend => {
+          const state = !backend.reachable ? `unreachable (${backend.error})`
+            : !backend.authorized ? `reachable, but ${backend.error ?? 'the API key was rejected'}`
+            : backend.error ? `reachable, ${backend.error}` : `reachable (${backend.latencyMs} ms)`;
+          return `- ${backend.name}${backend.isDefault ? ' (default)' : ''}: ${backend.baseURL} - ${state}`;
+        }).join('\n');
+        break;
+      }
+      case 'query_audit_log': {
+        const entries = responseData as AuditEntry[];
+        data = { entries };
+        summary = entries.length > 0
+          ? `Audit log entries (${entries.length}, most recent first):\n` + entries.map(entry => {
+              const ids = [...entry.collectionIds.map(id => `collection ${id}`), ...entry.fileIds.map(id => `file ${id}`)];
+              const outcome = entry.status === 'error' ? `error: ${entry.error ?? 'unknown'}` : entry.status;
+              return `- ${entry.time} ${entry.tool} (${outcome}, ${entry.durationMs} ms)${entry.backend ? ` on ${entry.backend}` : ''}${entry.client ? ` by ${entry.client.name}` : ''}${ids.length > 0 ? ` - ${ids.join(', ')}` : ''}`;
+            }).join('\n')
+          : "No audit log entries match.";
+        break;
+      }
+      case 'get_diagnostics': {
+        const diagnostics = responseData as { uptimeSeconds: number; queryCache: QueryCacheStats };
+        const cache = diagnostics.queryCache;
+        summary = [
+          `Uptime: ${diagnostics.uptimeSeconds} s`,
+          `Query cache: ${cache.enabled ? 'enabled' : 'disabled'}`,
+          `- Entries: ${cache.entries} of ${cache.maxEntries} (${formatBytes(cache.bytes)} of ${formatBytes(cache.maxBytes)}), TTL ${cache.ttlSeconds} s`,
+          `- Hits: ${cache.hits}, misses: ${cache.misses}, hit rate: ${cache.hitRate !== null ? `${(cache.hitRate * 100).toFixed(1)}%` : 'N/A'}`,
+          `- Evictions: ${cache.evictions}, expirations: ${cache.expirations}, invalidations: ${cache.invalidations}`,
+        ].join('\n');
+        break;
+      }
+      case 'get_graph_node': {
+        const node = responseData as GraphNode;
+        data = { node };
+        summary = `Graph node ${nodeLabel(node)}:\n\`\`\`json\n${JSON.stringify(node, null, 2)}\n\`\`\``;
         break;
+      }
+      case 'list_graph_neighbors': {
+        const neighbors = responseData as GraphNeighbor[];
+        data = { neighbors };
+        summary = neighbors.length > 0
+          ? `Neighbors (${neighbors.length}):\n` + neighbors.map(neighbor => {
+              // An incoming edge starts at the neighbor and points at the requested node
+              const incoming = neighbor.edge._from === neighbor.node._id;
+              return `- ${incoming ? '<-' : '->'} [${edgeType(neighbor.edge)}] ${nodeLabel(neighbor.node)}`;
+            }).join('\n')
+          : "No neighbors found for this node.";
+        break;
+      }
+      case 'find_graph_paths': {
+        const paths = responseData as GraphPath[];
+        data = { paths };
+        summary = paths.length > 0
+          ? `Paths (${paths.length}):\n` + paths.map((graphPath, index) => `${index + 1}. ${formatGraphPath(graphPath)}`).join('\n')
+          : "No paths found between these nodes within the maximum depth.";
+        break;
+      }
       // Add cases for other tools if needed
     }
   } catch (e) {
-    console.error("Error formatting response:", e);
+    log.error(`Formatting the ${toolName} response failed`, { error: e });
     summary = `Tool '${toolName}' executed, but response formatting failed. Raw data: ${JSON.stringify(responseData)}`;
   }
 
-  return { content: [{ type: 'text', text: summary }] };
+  return buildToolResponse(summary, data, format);
 }
 
-// --- API Call Handlers ---
-
-// Helper for standard JSON API calls
-export async function handleApiCall(
-    axiosInstance: AxiosInstance,
-    endpoint: string,
-    method: 'get' | 'post' | 'put' | 'delete',
-    toolName: string, // Now required
-    data?: any // This 'data' contains the arguments from the tool call
-) {
-  try {
-    // Prepare the actual payload for the API call
-    let apiPayload = data;
-
-    // Specifically for query_collection, ensure graph params are included if present
-    if (toolName === 'query_collection' && data) {
-        apiPayload = {
-            collectionId: data.collectionId, // Ensure collectionId is passed
-            queryText: data.queryText,
-            limit: data.limit,
-            searchMode: data.searchMode,
-            maxDistance: data.maxDistance,
-            includeMetadataFilters: data.includeMetadataFilters,
-            excludeMetadataFilters: data.excludeMetadataFilters,
-            // Add graph parameters if they exist in the input 'data'
-            ...(data.enableGraphSearch !== undefined && { enableGraphSearch: data.enableGraphSearch }),
-            ...(data.graphDepth !== undefined && { graphDepth: data.graphDepth }),
-            ...(data.graphRelationshipTypes !== undefined && { graphRelationshipTypes: data.graphRelationshipTypes }),
-            // Add the missing graphTraversalDirection parameter
-            ...(data.graphTraversalDirection !== undefined && { graphTraversalDirection: data.graphTraversalDirection }),
-        };
-    }
+// Page position for the JSON payload of the listing tools
+function pageData(page: Page<unknown>) {
+  return { offset: page.offset, limit: page.limit, total: page.total, nextCursor: page.nextCursor };
+}
 
-    // Use apiPayload for the request
-    const response = await axiosInstance({ method, url: endpoint, data: apiPayload });
-
-    // Check for API-level errors (4xx, 5xx handled by validateStatus)
-    // Check for API-level errors (4xx, 5xx handled by validateStatus)
-    if (response.status >= 400) {
-       const errorData = response.data;
-       // Try to get a more specific message, include errorData if possible
-       let detailedErrorMessage = `API Error: ${response.status} ${response.statusText}`;
-       if (errorData?.message) {
-           detailedErrorMessage = `${detailedErrorMessage} - ${errorData.message}`;
-       }
-       // Include the full error data in the console log for debugging
-       console.error(`API Error calling ${method.toUpperCase()} ${endpoint}: Status ${response.status}`, errorData);
-       // Include a stringified version of errorData in the thrown error if it's not too large
-       try {
-           const errorDataString = JSON.stringify(errorData);
-           if (errorDataString.length < 500) { // Limit size to avoid overly long messages
-               detailedErrorMessage += ` | Details: ${errorDataString}`;
-           }
-       } catch (e) { /* ignore serialization errors */ }
-       throw new McpError(ErrorCode.InternalError, detailedErrorMessage);
-    }
+// Human-readable byte size, e.g. 1.5 MB
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${bytes} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
 
-    // Format the successful response
-    // Handle 204 No Content for DELETE
-    if (method === 'delete' && response.status === 204) {
-       return formatResponse(toolName, null); // Pass null for formatting delete success
-    }
-    return formatResponse(toolName, response.data);
+// --- Query Formatting ---
+
+// Normalized JSON form of a query hit
+function queryHitData(res: ProcessedQueryResult, index: number) {
+  return {
+    rank: index + 1,
+    vectorId: res.vector_id ?? null,
+    fileId: res.file_id ?? res.metadata?.file_id ?? null,
+    score: res.score ?? null,
+    distance: res.distance ?? null,
+    text: res.metadata?.chunk_text ?? null,
+    metadata: res.metadata ?? {},
+    ...(res.merged_vector_ids && { mergedVectorIds: res.merged_vector_ids }),
+    ...(res.collapsed_count && { collapsedCount: res.collapsed_count }),
+  };
+}
 
-  } catch (error) {
-     if (error instanceof McpError) throw error; // Re-throw known MCP errors
-
-     // Handle Axios-specific errors or network issues
-     // Handle Axios-specific errors or network issues
-     let errorMessage = `Failed to communicate with Vectra API during ${toolName}`;
-     let errorDetails = ''; // To capture potential response data
-     if (error instanceof AxiosError) {
-       errorMessage = error.message; // Base Axios message
-       if (error.response?.data) {
-           // Try to extract a more specific message or details from the response data
-           const responseData = error.response.data;
-           if (responseData?.message) {
-               errorMessage = `${errorMessage}: ${responseData.message}`; // Append API message if available
-           }
-           try {
-               const responseDataString = JSON.stringify(responseData);
-                if (responseDataString.length < 500) {
-                   errorDetails = ` | Details: ${responseDataString}`;
-                }
-           } catch (e) { /* ignore */ }
-       }
-     } else if (error instanceof Error) {
-       errorMessage = error.message;
-     }
-     console.error(`Network/Axios Error calling ${method.toUpperCase()} ${endpoint}:`, error);
-     // Combine base message with details if available
-     throw new McpError(ErrorCode.InternalError, `${errorMessage}${errorDetails}`);
+// Render a query hit as a markdown section; extraParts follow the vector ID
+function formatQueryHit(res: ProcessedQueryResult, index: number, extraParts: string[] = []): string {
+  const vectorId = res.vector_id || 'N/A';
+  const distance = res.distance?.toFixed(4) || 'N/A';
+  const score = res.score?.toFixed(4) || 'N/A'; // Extract score
+  const metadata = res.metadata || {};
+  const text = metadata.chunk_text || 'No text found';
+  const keywords = metadata.excerptKeywords;
+  const questions = metadata.questionsThisExcerptCanAnswer;
+
+  // Build the output string using Markdown
+  let outputParts = [`### Result ${index + 1}`]; // Markdown heading
+  outputParts.push(`**Vector ID:** ${vectorId}`); // Add Vector ID
+  outputParts.push(...extraParts);
+  if (res.merged_vector_ids) {
+    outputParts.push(`**Merged Chunks:** ${res.merged_vector_ids.length} adjacent chunks (${res.merged_vector_ids.join(', ')})`);
   }
+  if (res.collapsed_count) {
+    outputParts.push(`**Collapsed:** ${res.collapsed_count} more hits from this file`);
+  }
+  outputParts.push(`**Distance:** ${distance}`);
+  outputParts.push(`**Score:** ${score}`); // Add Score
+  outputParts.push(`**Text:**\n\`\`\`\n${text}\n\`\`\``); // Code block for text
+  if (keywords) {
+    outputParts.push(`**Keywords:**\n${keywords}`);
+  }
+  if (questions) {
+    outputParts.push(`**Questions Answered:**\n${questions}`);
+  }
+  // --- Add ArangoDB Node Data to Output ---
+  if (metadata.arangodb_node) {
+    outputParts.push(`**ArangoDB Node:**\n\`\`\`json\n${JSON.stringify(metadata.arangodb_node, null, 2)}\n\`\`\``);
+  }
+  // --- Add ArangoDB Neighbors Data to Output ---
+  if (metadata.arangodb_neighbors && Array.isArray(metadata.arangodb_neighbors) && metadata.arangodb_neighbors.length > 0) {
+    outputParts.push(`**ArangoDB Neighbors (${metadata.arangodb_neighbors.length}):**\n\`\`\`json\n${JSON.stringify(metadata.arangodb_neighbors, null, 2)}\n\`\`\``);
+  }
+  return outputParts.join('\n\n'); // Join parts with double newline for spacing
+}
+
+// --- Graph Formatting ---
+
+// Human-readable name of a graph node, with its key
+function nodeLabel(node: GraphNode): string {
+  const name = node.name ?? node.label ?? node.title;
+  return name ? `${name} (${node._key})` : node._key;
+}
+
+// Relationship type of a graph edge
+function edgeType(edge: GraphEdge): string {
+  return edge.type ?? (typeof edge.relationship === 'string' ? edge.relationship : undefined) ?? 'related';
+}
+
+// Render a path as `A -[cites]-> B <-[mentions]- C`, following each edge's actual direction
+function formatGraphPath(graphPath: GraphPath): string {
+  return graphPath.vertices.map((vertex, index) => {
+    if (index === 0) return nodeLabel(vertex);
+    const edge = graphPath.edges[index - 1];
+    const previous = graphPath.vertices[index - 1];
+    const forward = !edge || edge._from === (previous._id ?? previous._key) || edge._from.endsWith(`/${previous._key}`);
+    return `${forward ? `-[${edge ? edgeType(edge) : 'related'}]->` : `<-[${edgeType(edge)}]-`} ${nodeLabel(vertex)}`;
+  }).join(' ');
+}
+
+// Converted formats are uploaded as plain text, so give them a .txt filename (e.g. report.pdf -> report.pdf.txt)
+export function toUploadSource(filePath: string, extractedMetadata: Record<string, string>): string {
+  return extractedMetadata.format && extractedMetadata.format !== 'text' ? `${filePath}.txt` : filePath;
+}
+
+// --- API Call Handlers ---
+
+// Helper for standard API calls: run a typed client call and format its result.
+// API errors surface as VectraApiError (an McpError) thrown by the client.
+export async function handleApiCall<T>(
+    toolName: string,
+    call: () => Promise<T>,
+    format: OutputFormat = 'markdown'
+) {
+  return formatResponse(toolName, await call(), format);
 }
 
 
 // Handler for embedding multiple text items in batch
 export async function handleEmbedTexts(
-    axiosInstance: AxiosInstance,
+    client: VectraClient,
     items: Array<{ text: string; metadata?: Record<string, string> }>,
-    collectionId?: string
+    collectionId?: string,
+    waitOptions?: WaitOptions, // Optionally wait until the uploaded files are embedded
+    concurrency: number = UPLOAD_CONCURRENCY, // Max uploads in flight
+    control?: BatchControl, // Progress reporting and cancellation
+    format: OutputFormat = 'markdown'
 ) {
   const toolName = 'embed_texts';
-  const results: Array<{ fileId?: string; sourceDesc: string; error?: string }> = [];
-  let successCount = 0;
-  let errorCount = 0;
 
-  console.log(`Starting batch embed of ${items.length} items...`);
+  log.info(`Starting batch embed of ${items.length} items`, { tool: toolName, items: items.length, concurrency });
 
-  for (const item of items) {
+  const settled = await mapWithConcurrency(items, concurrency, withProgress(items.length, control, async (item, index): Promise<{ fileId?: string; sourceDesc: string; error?: string }> => {
     // Generate a placeholder URL/filename for each item
-    const placeholderUrl = `batch-text-item-${Date.now()}.txt`;
-    const sourceDesc = item.metadata?.source_url || item.metadata?.file_path || `text item ${results.length + 1}`;
+    const placeholderUrl = `batch-text-item-${index + 1}-${Date.now()}.txt`;
+    const sourceDesc = item.metadata?.source_url || item.metadata?.file_path || `text item ${index + 1}`;
 
     try {
-      // Call the single embed handler for each item
-      const result = await handleEmbedFileContent( // Corrected function name
-        axiosInstance,
+      // Upload each item
+      const { fileId } = await uploadFileContent(
+        client,
         item.text,
         placeholderUrl, // Use placeholder for filename generation
         collectionId,
         item.metadata // Pass item-specific metadata
       );
 
-      // Extract file ID from the successful response summary
-      let fileId: string | undefined;
-      if (result.content[0]?.text) {
-         const match = result.content[0].text.match(/File ID: ([a-f0-9-]+)/);
-         if (match) {
-            fileId = match[1];
-         }
-      }
-
-      results.push({ fileId, sourceDesc });
-      successCount++;
-      console.log(`Successfully processed item: ${sourceDesc} (File ID: ${fileId || 'N/A'})`);
+      log.debug(`Uploaded ${sourceDesc}`, { tool: toolName, source: sourceDesc, fileId });
+      return { fileId, sourceDesc };
 
     } catch (error) {
       const message = error instanceof McpError ? error.message : (error instanceof Error ? error.message : 'Unknown error');
-      console.error(`Error processing item ${sourceDesc}:`, message);
-      results.push({ sourceDesc, error: message });
-      errorCount++;
+      log.warning(`Failed to embed ${sourceDesc}`, { tool: toolName, source: sourceDesc, error: message });
+      return { sourceDesc, error: message };
     }
-    // Optional: Add a small delay between calls if needed to avoid rate limits
-    // await new Promise(resolve => setTimeout(resolve, 100));
-  }
+  }), control?.signal);
+
+  // Items never started because of cancellation are left out of the summary
+  const results = settled.filter(r => r !== undefined);
+  const cancelled = cancellationNote(results.length, items.length, control);
+
+  const successCount = results.filter(r => !r.error).length;
+  const errorCount = results.filter(r => r.error).length;
 
   // Format the final summary response
-  let summary = `Batch embed completed. ${successCount} items succeeded, ${errorCount} items failed.`;
+  let summary = `Batch embed ${cancelled ? 'cancelled' : 'completed'}. ${successCount} items succeeded, ${errorCount} items failed.`;
+  if (cancelled) {
+     summary += `\n${cancelled}`;
+  }
   if (successCount > 0) {
      summary += `\nSuccessful File IDs: ${results.filter(r => r.fileId).map(r => r.fileId).join(', ')}`;
   }
@@ -285,109 +385,166 @@ export async function handleEmbedTexts(
      summary += `\nFailed items: ${results.filter(r => r.error).map(r => `${r.sourceDesc} (${r.error})`).join(', ')}`;
   }
 
-  return { content: [{ type: 'text', text: summary }] };
+  const uploaded = results.filter(r => r.fileId).map(r => ({ fileId: r.fileId!, sourceDesc: r.sourceDesc }));
+  let statuses: Map<string, FileStatus> | undefined;
+  // Don't keep a cancelled request busy waiting for embeddings
+  if (!cancelled) {
+    ({ summary, statuses } = await appendEmbeddingStatuses(client, summary, uploaded, waitOptions));
+  } else {
+    log.notice(summary, { tool: toolName }); // The client may not receive the response of a cancelled request
+  }
+
+  return buildToolResponse(summary, {
+    succeeded: successCount,
+    failed: errorCount,
+    cancelled: Boolean(cancelled),
+    items: results.map(r => ({
+      source: r.sourceDesc,
+      fileId: r.fileId ?? null,
+      error: r.error ?? null,
+      embeddingStatus: (r.fileId && statuses?.get(r.fileId)?.state) ?? null,
+    })),
+  }, format);
 }
 
 
-// Handler for embedding multiple local files
+// Handler for embedding multiple local files (file paths, directories or glob patterns)
 export async function handleEmbedFiles(
-    axiosInstance: AxiosInstance,
-    sources: string[], // Now expects only file paths
+    client: VectraClient,
+    sources: string[],
     collectionId?: string,
-    baseMetadata?: Record<string, string> // Optional base metadata for all items
+    baseMetadata?: Record<string, string>, // Optional base metadata for all items
+    sourceOptions?: SourceResolutionOptions, // Include/exclude patterns, gitignore and size/count limits
+    waitOptions?: WaitOptions, // Optionally wait until the uploaded files are embedded
+    concurrency: number = UPLOAD_CONCURRENCY, // Max uploads in flight
+    control?: BatchControl, // Progress reporting and cancellation
+    format: OutputFormat = 'markdown'
 ) {
   const toolName = 'embed_files';
-  const results: Array<{ fileId?: string; source: string; error?: string }> = [];
-  let successCount = 0;
-  let errorCount = 0;
 
-  console.log(`Starting batch embed of ${sources.length} sources...`);
+  // Expand directories and glob patterns into individual files
+  const { files, skipped, truncated } = await resolveSources(sources, sourceOptions);
+
+  log.info(`Starting batch embed of ${files.length} files`, { tool: toolName, files: files.length, sources: sources.length, concurrency });
 
-  for (const source of sources) {
+  const settled = await mapWithConcurrency(files, concurrency, withProgress(files.length, control, async ({ path: filePath, relativePath: source }): Promise<{ fileId?: string; source: string; error?: string }> => {
     let content: string | null = null;
     let errorMsg: string | null = null;
-    const itemMetadata: Record<string, string> = { ...baseMetadata }; // Start with base metadata
+    let uploadSource = filePath;
+    let itemMetadata: Record<string, string> = {};
 
     try {
-      // Assume it's a local file path
-      itemMetadata['file_path'] = source; // Add file path to metadata
-      content = await fs.readFile(source, 'utf-8');
-      console.log(`Successfully read content from file: ${source}`);
+      // Read the raw file and extract clean text (PDF, DOCX, HTML, ...)
+      const extracted = await extractText(filePath, await fs.readFile(filePath));
+      content = extracted.text;
+      // Extracted format metadata, overridden by caller metadata, plus the file path (relative to the chosen root)
+      itemMetadata = { ...extracted.metadata, ...baseMetadata, file_path: source };
+      uploadSource = toUploadSource(filePath, extracted.metadata);
+      log.debug(`Read ${source}`, { tool: toolName, source });
     } catch (readError) {
       if (readError instanceof Error) {
         errorMsg = `Failed to read file "${source}": ${readError.message}`;
       } else {
         errorMsg = `Failed to read file "${source}": Unknown error`;
       }
-      console.error(errorMsg);
+      log.warning(errorMsg, { tool: toolName, source });
     }
 
     if (content !== null) {
       try {
-        // Call the single embed handler for the content
-        const result = await handleEmbedFileContent( // Corrected function name
-          axiosInstance,
+        // Upload the extracted content
+        const { fileId } = await uploadFileContent(
+          client,
           content,
-          source, // Pass original source string for filename generation/fallback
+          uploadSource, // Pass the file path for filename generation/fallback
           collectionId,
           itemMetadata // Pass combined metadata
         );
 
-        // Extract file ID from the successful response summary
-        let fileId: string | undefined;
-        if (result.content[0]?.text) {
-           const match = result.content[0].text.match(/File ID: ([a-f0-9-]+)/);
-           if (match) {
-              fileId = match[1];
-           }
-        }
-
         // Store successful result
-        results.push({ fileId, source });
-        console.log(`Successfully processed source: ${source} (File ID: ${fileId || 'N/A'})`);
-        errorMsg = null; // Clear error message on success
+        log.debug(`Uploaded ${source}`, { tool: toolName, source, fileId });
+        return { fileId, source };
 
       } catch (embedError) {
-        // This catch block now correctly captures errors re-thrown from the backend via handleEmbedFileContent
+        // This catch block now correctly captures errors re-thrown from the backend via uploadFileContent
         const message = embedError instanceof McpError ? embedError.message : (embedError instanceof Error ? embedError.message : 'Unknown embedding error');
         errorMsg = `Error processing source ${source}: ${message}`; // Assign error message
-        console.error(errorMsg);
-        results.push({ source, error: message }); // Add error result immediately
+        log.warning(errorMsg, { tool: toolName, source });
+        return { source, error: message };
       }
-    } else {
-      // Error occurred during read, push the error result
-      results.push({ source, error: errorMsg || 'Failed to read file content' });
     }
-     // Optional: Add a small delay between calls if needed
-     // await new Promise(resolve => setTimeout(resolve, 100));
-  }
+    // Error occurred during read, return the error result
+    return { source, error: errorMsg || 'Failed to read file content' };
+  }), control?.signal);
 
-  // Recalculate success/error counts based on the final results array
-  successCount = results.filter(r => !r.error).length;
-  errorCount = results.filter(r => r.error).length;
+  // Files never started because of cancellation are left out of the summary
+  const results = settled.filter(r => r !== undefined);
+  const cancelled = cancellationNote(results.length, files.length, control);
+
+  // Calculate success/error counts based on the final results array
+  const successCount = results.filter(r => !r.error).length;
+  const errorCount = results.filter(r => r.error).length;
 
   // Format the final summary response
-  let summary = `Batch embed files completed. ${successCount} sources succeeded, ${errorCount} sources failed.`;
+  let summary = `Batch embed files ${cancelled ? 'cancelled' : 'completed'}. ${successCount} sources succeeded, ${errorCount} sources failed.`;
+  if (cancelled) {
+     summary += `\n${cancelled}`;
+  }
   if (successCount > 0) {
      summary += `\nSuccessful File IDs: ${results.filter(r => r.fileId).map(r => r.fileId).join(', ')}`;
   }
    if (errorCount > 0) {
      summary += `\nFailed sources: ${results.filter(r => r.error).map(r => `${r.source} (${r.error})`).join(', ')}`;
   }
+  if (skipped.length > 0) {
+     summary += `\nSkipped files: ${skipped.map(s => `${s.path} (${s.reason})`).join(', ')}`;
+  }
+  if (truncated) {
+     summary += `\nStopped after ${files.length} files: the max file count was reached. Narrow the sources or raise maxFiles to embed the rest.`;
+  }
 
-  return { content: [{ type: 'text', text: summary }] };
+  const uploaded = results.filter(r => r.fileId).map(r => ({ fileId: r.fileId!, sourceDesc: r.source }));
+  let statuses: Map<string, FileStatus> | undefined;
+  // Don't keep a cancelled request busy waiting for embeddings
+  if (!cancelled) {
+    ({ summary, statuses } = await appendEmbeddingStatuses(client, summary, uploaded, waitOptions));
+  } else {
+    log.notice(summary, { tool: toolName }); // The client may not receive the response of a cancelled request
+  }
+
+  return buildToolResponse(summary, {
+    succeeded: successCount,
+    failed: errorCount,
+    cancelled: Boolean(cancelled),
+    truncated,
+    items: results.map(r => ({
+      source: r.source,
+      fileId: r.fileId ?? null,
+      error: r.error ?? null,
+      embeddingStatus: (r.fileId && statuses?.get(r.fileId)?.state) ?? null,
+    })),
+    skipped,
+  }, format);
 }
 
 
-// Specific handler for uploading file content (renamed from handleEmbedFile for clarity)
-// Note: This handler is still used internally by handleEmbedTexts and handleEmbedFiles
-export async function handleEmbedFileContent(
-    axiosInstance: AxiosInstance,
+// Result of a single content upload
+export type UploadResult = {
+  fileId?: string;
+  fileName: string; // Filename sent to the backend
+  sourceDesc: string; // file_path, source_url or source identifier of the content
+  metadata: Record<string, string>; // Metadata sent with the upload
+};
+
+// Upload content as a file (renamed from handleEmbedFileContent; it returns structured data rather than a tool response)
+// Note: This helper is used internally by handleEmbedTexts, handleEmbedFiles and sync_directory
+export async function uploadFileContent(
+    client: VectraClient,
     scrapedContent: string,
     sourceIdentifier: string, // Used for filename generation or as fallback metadata (can be path or placeholder)
     collectionId?: string,
     metadata?: Record<string, string> // Added optional metadata parameter
-) {
+): Promise<UploadResult> {
   // Determine tool name based on metadata (file_path or placeholder)
   const toolName = metadata?.file_path ? 'embed_files' : 'embed_texts'; // Adjusted logic
   let fileName: string;
@@ -408,88 +565,35 @@ export async function handleEmbedFileContent(
      fileName = `${base}-${Date.now()}${ext || '.txt'}`; // Ensure extension
 
   } catch (e) {
-     console.warn(`Could not generate filename from sourceIdentifier "${sourceIdentifier}". Using generic name.`);
+     log.warning(`Could not generate a filename from "${sourceIdentifier}"; using a generic name`, { sourceIdentifier });
      fileName = `embedded-content-${Date.now()}.txt`;
   }
 
 
-  try {
-    // MCP Server DEBUG: handleEmbedFileContent received collectionId log removed.
-    
-    const uploadPath = '/files/upload'; // Base path for the upload
-
-    const formData = new FormData();
-    // Append content as a buffer under the 'file' field name (matching multer config)
-    formData.append('file', Buffer.from(scrapedContent, 'utf-8'), fileName); // Corrected field name to 'file'
-
-    // Add provided metadata to the form data, ensuring source_url/file_path from itemMetadata are included
-    const finalMetadata = { ...metadata }; // Copy incoming metadata
-    if (!finalMetadata.source_url && !finalMetadata.file_path) {
-        // Add sourceIdentifier as fallback if no specific source metadata provided
-        if (sourceIdentifier.startsWith('http://') || sourceIdentifier.startsWith('https://')) {
-            finalMetadata.source_url = sourceIdentifier;
-        } else if (sourceIdentifier.includes(path.sep) || sourceIdentifier.includes('/')) {
-             finalMetadata.file_path = sourceIdentifier;
-        }
-    }
-
-    if (finalMetadata) {
-      for (const key in finalMetadata) {
-        if (Object.prototype.hasOwnProperty.call(finalMetadata, key)) {
-          formData.append(`metadata[${key}]`, finalMetadata[key]);
-        }
+  // Add provided metadata to the upload, ensuring source_url/file_path from itemMetadata are included
+  const finalMetadata = { ...metadata }; // Copy incoming metadata
+  if (!finalMetadata.source_url && !finalMetadata.file_path) {
+      // Add sourceIdentifier as fallback if no specific source metadata provided
+      if (sourceIdentifier.startsWith('http://') || sourceIdentifier.startsWith('https://')) {
+          finalMetadata.source_url = sourceIdentifier;
+      } else if (sourceIdentifier.includes(path.sep) || sourceIdentifier.includes('/')) {
+           finalMetadata.file_path = sourceIdentifier;
       }
-    }
-    
-    // Prepare Axios request configuration
-    const requestConfig: { headers: any; params?: { collectionId: string } } = {
-        headers: formData.getHeaders(), // Important for multipart/form-data
-    };
-
-    // If collectionId is provided, add it to the params for Axios to handle
-    if (collectionId) {
-        requestConfig.params = { collectionId: collectionId };
-    }
-    
-    // MCP Server DEBUG: Posting to path with params log removed.
-
-    // Call the endpoint using the path and the requestConfig
-    const response = await axiosInstance.post(uploadPath, formData, requestConfig);
-
-     // Check for API-level errors (4xx)
-    if (response.status >= 400) {
-       const errorData = response.data;
-       const errorMessage = errorData?.message || `API Error: ${response.status} ${response.statusText}`;
-       console.error(`API Error calling POST /files/upload for content from "${sourceIdentifier}":`, errorMessage, errorData); // Removed /v1 from log
-       throw new McpError(ErrorCode.InternalError, errorMessage);
-    }
-
-    // Format the successful response
-    let sourceDesc = finalMetadata?.file_path || finalMetadata?.source_url || sourceIdentifier;
-    let summary = `Successfully uploaded content from "${sourceDesc}". Embedding is pending.`;
-    if (response.data?.data?.id) {
-       summary += ` File ID: ${response.data.data.id}`;
-    }
-    // Include metadata in the response summary if present
-    if (finalMetadata && Object.keys(finalMetadata).length > 0) {
-       summary += `\nMetadata: ${JSON.stringify(finalMetadata)}`;
-    }
-    return { content: [{ type: 'text', text: summary }] };
+  }
+  const sourceDesc = finalMetadata.file_path || finalMetadata.source_url || sourceIdentifier;
 
+  try {
+    const file = await client.uploadFile({ content: scrapedContent, fileName, metadata: finalMetadata, collectionId });
+
+    // Return the upload outcome; embedding is still pending at this point
+    return {
+      fileId: file?.id,
+      fileName,
+      sourceDesc,
+      metadata: finalMetadata,
+    };
   } catch (error) {
-     if (error instanceof McpError) throw error; // Re-throw known MCP errors
-
-     let sourceDesc = metadata?.file_path || metadata?.source_url || sourceIdentifier;
-     let errorMessage = `Failed to upload content from "${sourceDesc}"`;
-      if (error instanceof AxiosError) {
-       errorMessage = error.message;
-       if (error.response?.data?.message) {
-          errorMessage = `${errorMessage}: ${error.response.data.message}`;
-       }
-     } else if (error instanceof Error) {
-       errorMessage = error.message;
-     }
-     console.error(`Error uploading content from ${sourceDesc}:`, error);
-     throw new McpError(ErrorCode.InternalError, errorMessage);
+     log.warning(`Uploading content from ${sourceDesc} failed`, { source: sourceDesc, error });
+     throw error;
   }
 }
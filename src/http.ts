@@ -0,0 +1,109 @@
+// HTTP transport: serves MCP over SSE so one shared server can front the Vectra instance for many clients
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import crypto from 'crypto';
+import http from 'http';
+import { logger } from './logger.js';
+
+const log = logger.child('http');
+
+export type HttpTransportOptions = {
+  host: string;
+  port: number;
+  authToken?: string; // Bearer token MCP clients must send; unauthenticated if unset
+  corsOrigins: string[]; // Allowed browser origins; '*' allows any
+};
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+// Compare bearer tokens in constant time
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(match[1].trim());
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Set the CORS headers for an allowed origin; returns false for a disallowed browser origin
+function applyCors(req: http.IncomingMessage, res: http.ServerResponse, corsOrigins: string[]): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true; // Not a browser cross-origin request
+  if (!corsOrigins.includes('*') && !corsOrigins.includes(origin)) return false;
+  res.setHeader('Access-Control-Allow-Origin', corsOrigins.includes('*') ? '*' : origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  return true;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serve MCP over HTTP with the SSE transport: clients open GET /sse and post their messages to /messages?sessionId=...
+ * Each SSE session gets its own MCP server instance from `createServer`.
+ */
+export async function startHttpServer(createServer: () => Server, options: HttpTransportOptions): Promise<http.Server> {
+  if (!options.authToken && !LOOPBACK_HOSTS.includes(options.host)) {
+    throw new Error(`Refusing to listen on ${options.host} without an auth token; set VECTRA_MCP_AUTH_TOKEN or bind to 127.0.0.1`);
+  }
+
+  const sessions = new Map<string, { transport: SSEServerTransport; server: Server }>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (!applyCors(req, res, options.corsOrigins)) {
+        return sendJson(res, 403, { error: 'Origin not allowed' });
+      }
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+      }
+      if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+        return sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      }
+      if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      }
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer();
+        sessions.set(transport.sessionId, { transport, server });
+        res.on('close', () => {
+          sessions.delete(transport.sessionId);
+          server.close().catch(error => log.warning('Failed to close an MCP session', { sessionId: transport.sessionId, error }));
+        });
+        await server.connect(transport); // Starts the SSE stream
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+        if (!session) return sendJson(res, 404, { error: 'Unknown or expired session' });
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      log.error('Failed to handle an HTTP request', { method: req.method, path: req.url?.split('?')[0], error });
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  return httpServer;
+}
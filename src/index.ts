@@ -1,6 +1,56 @@
 #!/usr/bin/env node
-import { VectraMcpServer } from './server.js';
+import { parseArgs } from 'util';
+import { VectraMcpServer, type TransportOptions } from './server.js';
+import { ConfigError, loadConfig, LOG_FILE, LOG_LEVEL, MCP_AUTH_TOKEN, MCP_CORS_ORIGINS, MCP_HTTP_HOST, MCP_HTTP_PORT, MCP_TRANSPORT, VECTRA_CONFIG } from './config.js';
+import { configureLogging, isLogLevel, LOG_LEVELS, logger } from './logger.js';
+
+// Command line flags override the environment variables
+function parseCommandLine(): { configPath?: string; transport: TransportOptions } {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+  });
+  const configPath = values.config ?? VECTRA_CONFIG;
+  const transport = values.transport ?? MCP_TRANSPORT;
+  if (transport === 'stdio') return { configPath, transport: { transport } };
+  if (transport !== 'http') {
+    throw new ConfigError(`Unknown transport "${transport}": expected stdio or http`);
+  }
+  const port = values.port !== undefined ? Number(values.port) : MCP_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigError(`Invalid port "${values.port ?? MCP_HTTP_PORT}"`);
+  }
+  return {
+    configPath,
+    transport: { transport, host: values.host ?? MCP_HTTP_HOST, port, authToken: MCP_AUTH_TOKEN, corsOrigins: MCP_CORS_ORIGINS },
+  };
+}
+
+// Logs go to stderr or the log file, never to stdout
+function setupLogging() {
+  if (!isLogLevel(LOG_LEVEL)) {
+    throw new ConfigError(`Unknown log level "${LOG_LEVEL}": expected one of ${LOG_LEVELS.join(', ')}`);
+  }
+  configureLogging({ level: LOG_LEVEL, file: LOG_FILE });
+}
+
+// Report a startup failure and exit non-zero once the log is flushed
+function startupFailed(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  logger.critical(error instanceof ConfigError ? `Configuration error: ${message}` : `Failed to start the Vectra MCP server: ${message}`);
+  process.exitCode = 1;
+}
 
 // Create and run the server instance
-const server = new VectraMcpServer();
-server.run().catch(console.error);
+try {
+  setupLogging();
+  const { configPath, transport } = parseCommandLine();
+  const server = new VectraMcpServer(loadConfig(configPath));
+  server.run(transport).catch(startupFailed);
+} catch (error) {
+  startupFailed(error);
+}
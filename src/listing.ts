@@ -0,0 +1,170 @@
+// Pagination, sorting and filtering of collection and file listings
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import crypto from 'crypto';
+import type { MetadataFilter } from './client.js';
+
+export type SortOrder = 'asc' | 'desc';
+
+export type ListOptions = {
+  cursor?: string;
+  offset?: number;
+  limit: number;
+  sortBy?: string;
+  sortOrder: SortOrder;
+  search?: string; // Case-insensitive substring of the name / filename
+  includeMetadataFilters?: MetadataFilter[];
+};
+
+export type Page<T> = {
+  items: T[];
+  offset: number;
+  limit: number;
+  total: number; // Items matching the search and filters
+  nextCursor: string | null; // null on the last page
+};
+
+type ListedItem = { [key: string]: unknown; metadata?: unknown };
+
+// Field that holds the searchable name of each kind of item
+export type NameField = 'name' | 'filename';
+
+// Alternative backend spellings of the sortable fields
+const SORT_FIELD_ALIASES: Record<string, string[]> = {
+  name: ['name'],
+  filename: ['filename', 'fileName', 'file_name'],
+  createdAt: ['createdAt', 'created_at'],
+  updatedAt: ['updatedAt', 'updated_at'],
+  size: ['size', 'sizeBytes', 'size_bytes'],
+};
+
+// Listing snapshots that later pages are served from; the oldest are dropped beyond this count
+const MAX_LISTING_SNAPSHOTS = 20;
+const LISTING_SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+
+type Cursor = { offset: number; snapshotId?: string };
+
+// Cursors are opaque to clients; they encode the offset of the next page and the listing snapshot it belongs to
+export function encodeCursor(offset: number, snapshotId?: string): string {
+  return Buffer.from(snapshotId ? `offset:${offset}:snapshot:${snapshotId}` : `offset:${offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Cursor {
+  const match = /^offset:(\d+)(?::snapshot:([0-9a-f]+))?$/.exec(Buffer.from(cursor, 'base64url').toString());
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor "${cursor}": pass the nextCursor of a previous page`);
+  }
+  return { offset: Number(match[1]), snapshotId: match[2] };
+}
+
+function fieldValue(item: ListedItem, field: string): unknown {
+  for (const alias of SORT_FIELD_ALIASES[field] ?? [field]) {
+    if (item[alias] !== undefined && item[alias] !== null) return item[alias];
+  }
+  return undefined;
+}
+
+// Metadata filters match the item's metadata, falling back to its top-level fields
+function matchesFilter(item: ListedItem, filter: MetadataFilter): boolean {
+  const metadata = item.metadata && typeof item.metadata === 'object' ? item.metadata as Record<string, unknown> : {};
+  const value = metadata[filter.field] ?? item[filter.field];
+  return value !== undefined && value !== null && String(value) === filter.value;
+}
+
+// Numbers and dates compare by value, everything else as case-insensitive text; missing values sort last
+function compareValues(a: unknown, b: unknown): number {
+  if (a === undefined) return b === undefined ? 0 : 1;
+  if (b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const dateA = typeof a === 'string' ? Date.parse(a) : NaN;
+  const dateB = typeof b === 'string' ? Date.parse(b) : NaN;
+  if (!Number.isNaN(dateA) && !Number.isNaN(dateB)) return dateA - dateB;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base', numeric: true });
+}
+
+/**
+ * Filter, sort and slice a full listing into one page; nextCursor refers to snapshotId, if given.
+ * Without sortBy the backend's order is kept; sorting is stable, so equal items keep that order too.
+ */
+export function paginate<T extends ListedItem>(items: T[], options: ListOptions, nameField: NameField, snapshotId?: string): Page<T> {
+  if (options.cursor !== undefined && options.offset !== undefined) {
+    throw new McpError(ErrorCode.InvalidParams, 'Pass either cursor or offset, not both');
+  }
+  const offset = options.cursor !== undefined ? decodeCursor(options.cursor).offset : options.offset ?? 0;
+
+  const search = options.search?.trim().toLowerCase();
+  let matching = items.filter(item =>
+    (!search || String(fieldValue(item, nameField) ?? '').toLowerCase().includes(search)) &&
+    (options.includeMetadataFilters ?? []).every(filter => matchesFilter(item, filter))
+  );
+  if (options.sortBy) {
+    const direction = options.sortOrder === 'desc' ? -1 : 1;
+    const sortBy = options.sortBy;
+    matching = [...matching].sort((a, b) => {
+      const valueA = fieldValue(a, sortBy);
+      const valueB = fieldValue(b, sortBy);
+      // Missing values stay last in both directions
+      if (valueA === undefined || valueB === undefined) return compareValues(valueA, valueB);
+      return direction * compareValues(valueA, valueB);
+    });
+  }
+
+  const end = offset + options.limit;
+  return {
+    items: matching.slice(offset, end),
+    offset,
+    limit: options.limit,
+    total: matching.length,
+    nextCursor: end < matching.length ? encodeCursor(end, snapshotId) : null,
+  };
+}
+
+/**
+ * Full listings kept in memory while a client pages through them. The API cannot page listings itself,
+ * so the first page downloads the listing once and its cursors serve the later pages from that snapshot.
+ * An expired snapshot is downloaded again; the cursor's offset still applies.
+ */
+export class ListingSnapshots {
+  // Map order is insertion order: the first snapshot is the oldest
+  private readonly snapshots = new Map<string, { scope: string; items: ListedItem[]; expiresAt: number }>();
+
+  // One page of the listing identified by scope (e.g. the backend and collection), loaded with load
+  async page<T extends ListedItem>(scope: string, load: () => Promise<T[]>, options: ListOptions, nameField: NameField): Promise<Page<T>> {
+    const snapshotId = options.cursor !== undefined ? decodeCursor(options.cursor).snapshotId : undefined;
+    const snapshot = snapshotId !== undefined ? this.get(snapshotId) : undefined;
+    if (snapshot && snapshot.scope !== scope) {
+      throw new McpError(ErrorCode.InvalidParams, 'The cursor belongs to a different listing: pass the nextCursor of a previous page of this one');
+    }
+    if (snapshot) return paginate(snapshot.items as T[], options, nameField, snapshotId);
+
+    const items = await load();
+    const newSnapshotId = crypto.randomBytes(12).toString('hex');
+    const page = paginate(items, options, nameField, newSnapshotId);
+    if (page.nextCursor) this.store(newSnapshotId, scope, items);
+    return page;
+  }
+
+  private get(snapshotId: string) {
+    const snapshot = this.snapshots.get(snapshotId);
+    if (snapshot && snapshot.expiresAt <= Date.now()) {
+      this.snapshots.delete(snapshotId);
+      return undefined;
+    }
+    return snapshot;
+  }
+
+  private store(snapshotId: string, scope: string, items: ListedItem[]) {
+    const now = Date.now();
+    for (const [id, snapshot] of this.snapshots) {
+      if (snapshot.expiresAt <= now || this.snapshots.size >= MAX_LISTING_SNAPSHOTS) this.snapshots.delete(id);
+    }
+    this.snapshots.set(snapshotId, { scope, items, expiresAt: now + LISTING_SNAPSHOT_TTL_MS });
+  }
+}
+
+// Markdown line describing the page position and how to fetch the next one
+export function pageHint(page: Page<unknown>): string {
+  if (page.total === 0) return '';
+  if (page.items.length === 0) return `No items at offset ${page.offset} (${page.total} in total).`;
+  const range = `Showing ${page.offset + 1}-${page.offset + page.items.length} of ${page.total}.`;
+  return page.nextCursor ? `${range} Next page: call again with cursor "${page.nextCursor}".` : range;
+}
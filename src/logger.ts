@@ -0,0 +1,158 @@
+// Structured logging: leveled JSON records to stderr or a file, forwarded to MCP clients as logging notifications
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevelSchema, McpError, type LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosError } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+
+export type LogLevel = LoggingLevel;
+
+// MCP logging levels, least to most severe
+export const LOG_LEVELS: readonly LogLevel[] = LoggingLevelSchema.options;
+
+const REDACTED = '[REDACTED]';
+
+// Object keys whose values are never logged
+const SECRET_KEY_PATTERN = /^(x-api-key|api[-_]?key|authorization|proxy-authorization|auth[-_]?token|password|secret|token)$/i;
+
+type McpSink = { server: Server; level: LogLevel };
+
+const state = {
+  level: 'info' as LogLevel,
+  write: (line: string) => { process.stderr.write(line); },
+  secrets: new Set<string>(),
+  sinks: new Set<McpSink>(),
+};
+
+// MCP session handling the current request; its logs go to that client only
+const currentSink = new AsyncLocalStorage<McpSink>();
+
+function isEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Set the local log level and destination: stderr, or a file opened for appending.
+ * Never stdout, which carries the stdio transport's JSON-RPC messages.
+ */
+export function configureLogging(options: { level?: LogLevel; file?: string }) {
+  if (options.level) state.level = options.level;
+  if (options.file) {
+    const stream = fs.createWriteStream(options.file, { flags: 'a' });
+    stream.on('error', error => process.stderr.write(`Cannot write log file ${options.file}: ${error.message}\n`));
+    state.write = line => { stream.write(line); };
+  }
+}
+
+// Values shorter than this are too likely to occur in ordinary text to be masked by value
+const MIN_SECRET_LENGTH = 8;
+
+// Values such as API keys that are masked wherever they appear in a record
+export function registerSecret(secret: string | undefined) {
+  if (secret && secret.length >= MIN_SECRET_LENGTH) state.secrets.add(secret);
+}
+
+function redactString(value: string): string {
+  let redacted = value.replace(/(\/\/)[^/@\s]+@/g, `$1${REDACTED}@`); // Credentials in URLs, e.g. proxy URLs
+  for (const secret of state.secrets) redacted = redacted.split(secret).join(REDACTED);
+  return redacted;
+}
+
+// Request details of an axios error, without its headers' credentials or the response body's internals
+function serializeAxiosError(error: AxiosError) {
+  return {
+    name: error.name,
+    message: error.message,
+    code: error.code,
+    status: error.response?.status,
+    request: {
+      method: error.config?.method?.toUpperCase(),
+      baseURL: error.config?.baseURL,
+      url: error.config?.url,
+      timeout: error.config?.timeout,
+      headers: error.config?.headers ? { ...error.config.headers } : undefined,
+      proxy: error.config?.proxy || undefined,
+    },
+  };
+}
+
+/**
+ * Make a value safe to log: secret-looking keys and registered secrets are masked, errors become plain objects.
+ * Cycles and very deep values are cut off.
+ */
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value) || depth > 8) return '[Circular or too deep]';
+  seen.add(value);
+
+  if (value instanceof AxiosError) return redact(serializeAxiosError(value), depth + 1, seen);
+  if (value instanceof Error) {
+    const { name, message, stack, ...fields } = value as Error & Record<string, unknown>;
+    // McpErrors are expected failures (bad arguments, API errors); only unexpected errors carry a stack
+    return redact({ name, message, ...fields, stack: value instanceof McpError ? undefined : stack }, depth + 1, seen);
+  }
+  if (Buffer.isBuffer(value)) return `[Buffer ${value.length} bytes]`;
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1, seen));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+    [key, SECRET_KEY_PATTERN.test(key) && item !== undefined ? REDACTED : redact(item, depth + 1, seen)]
+  ));
+}
+
+export class Logger {
+  constructor(readonly name: string) {}
+
+  // Logger for one part of the server; its name is the record's `logger` field
+  child(name: string): Logger {
+    return new Logger(`${this.name}.${name}`);
+  }
+
+  log(level: LogLevel, message: string, data?: Record<string, unknown>) {
+    const fields = data ? redact(data) as Record<string, unknown> : {};
+    const record = { time: new Date().toISOString(), level, logger: this.name, message: redactString(message), ...fields };
+
+    if (isEnabled(level, state.level)) {
+      state.write(`${JSON.stringify(record)}\n`);
+    }
+    // Inside a request only the requesting client is notified; otherwise every connected client is
+    const session = currentSink.getStore();
+    for (const sink of session ? [session] : state.sinks) {
+      if (!isEnabled(level, sink.level)) continue;
+      sink.server.sendLoggingMessage({ level, logger: this.name, data: { message: record.message, ...fields } })
+        .catch(() => { /* The client disconnected; the record was still written locally */ });
+    }
+  }
+
+  debug(message: string, data?: Record<string, unknown>) { this.log('debug', message, data); }
+  info(message: string, data?: Record<string, unknown>) { this.log('info', message, data); }
+  notice(message: string, data?: Record<string, unknown>) { this.log('notice', message, data); }
+  warning(message: string, data?: Record<string, unknown>) { this.log('warning', message, data); }
+  error(message: string, data?: Record<string, unknown>) { this.log('error', message, data); }
+  critical(message: string, data?: Record<string, unknown>) { this.log('critical', message, data); }
+}
+
+export const logger = new Logger('vectra-mcp');
+
+export type McpLogging = {
+  setLevel: (level: LogLevel) => void; // Handles logging/setLevel
+  run: <T>(handler: () => T) => T; // Runs a request handler so its records go to this client only
+  detach: () => void;
+};
+
+/**
+ * Forward log records to an MCP client once it has finished initializing. The client receives records
+ * at the local log level until it picks its own with logging/setLevel.
+ */
+export function attachMcpLogging(server: Server): McpLogging {
+  const sink: McpSink = { server, level: state.level };
+  server.oninitialized = () => { state.sinks.add(sink); };
+  return {
+    setLevel: level => { sink.level = level; },
+    run: handler => currentSink.run(sink, handler),
+    detach: () => { state.sinks.delete(sink); },
+  };
+}
@@ -0,0 +1,30 @@
+// Tool output formatting: human-readable markdown, machine-readable JSON, or both
+
+export type OutputFormat = 'markdown' | 'json' | 'both';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['markdown', 'json', 'both'];
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly unknown[]).includes(value);
+}
+
+// Structured payload of a tool response, kept for the audit log; symbol keys are never serialized to the client
+export const TOOL_DATA = Symbol('toolData');
+
+export type ToolResponse = { content: Array<{ type: 'text'; text: string }>; isError?: boolean; [TOOL_DATA]?: unknown };
+
+/**
+ * Build the MCP tool response from a markdown summary and its structured payload.
+ * With 'both', the markdown comes first and the JSON payload is the second content item.
+ */
+export function buildToolResponse(summary: string, data: unknown, format: OutputFormat = 'markdown'): ToolResponse {
+  const json = JSON.stringify(data ?? null, null, 2);
+  switch (format) {
+    case 'json':
+      return { content: [{ type: 'text', text: json }], [TOOL_DATA]: data };
+    case 'both':
+      return { content: [{ type: 'text', text: summary }, { type: 'text', text: json }], [TOOL_DATA]: data };
+    default:
+      return { content: [{ type: 'text', text: summary }], [TOOL_DATA]: data };
+  }
+}
@@ -0,0 +1,151 @@
+// Token-budgeted packing of query hits into a compact context block with numbered citations
+import type { ProcessedQueryResult } from './ranking.js';
+
+// Rough token estimate used for budgeting (no tokenizer dependency)
+const CHARS_PER_TOKEN = 4;
+
+// Budget kept free for the closing note on what was dropped
+const NOTE_RESERVE_TOKENS = 40;
+
+// A truncated hit must keep at least this many tokens of text to be worth including
+const MIN_TRUNCATED_TOKENS = 20;
+
+// Optional sections of a hit, in the order they are dropped when over budget (most verbose first)
+const VERBOSE_SECTIONS = ['neighbors', 'node', 'questions', 'keywords', 'scores'] as const;
+type VerboseSection = typeof VERBOSE_SECTIONS[number];
+
+export type PackableHit = ProcessedQueryResult & { source_collections?: string[] };
+
+export type PackedAnswer = { collectionId?: string; answer: string };
+
+const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Cut text to about `tokens` tokens, at a word boundary where possible
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+  const cut = text.slice(0, Math.max(0, maxChars - 1));
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > maxChars / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+function hitFileName(hit: PackableHit): string {
+  const metadata = hit.metadata ?? {};
+  const name = metadata.filename ?? metadata.file_name ?? metadata.file_path ?? metadata.source_url;
+  return typeof name === 'string' ? name : 'Unknown file';
+}
+
+function hitFileId(hit: PackableHit): string | undefined {
+  return hit.file_id ?? (typeof hit.metadata?.file_id === 'string' ? hit.metadata.file_id : undefined);
+}
+
+function citationLine(hit: PackableHit, number: number): string {
+  return `[${number}] ${hitFileName(hit)} (file ID: ${hitFileId(hit) ?? 'N/A'}, vector ID: ${hit.vector_id ?? 'N/A'})`;
+}
+
+// Render one hit in the compact packed form, without the dropped sections
+function renderHit(hit: PackableHit, number: number, text: string, dropped: Set<VerboseSection>): string {
+  const metadata = hit.metadata ?? {};
+  const lines = [`### [${number}] ${hitFileName(hit)}`];
+  if (!dropped.has('scores')) {
+    const scores = [
+      typeof hit.score === 'number' ? `score ${hit.score.toFixed(4)}` : undefined,
+      typeof hit.distance === 'number' ? `distance ${hit.distance.toFixed(4)}` : undefined,
+      hit.source_collections ? `collections ${hit.source_collections.join(', ')}` : undefined,
+    ].filter(Boolean);
+    if (scores.length > 0) lines.push(`_${scores.join(' | ')}_`);
+  }
+  if (!dropped.has('keywords') && metadata.excerptKeywords) lines.push(`**Keywords:** ${metadata.excerptKeywords}`);
+  if (!dropped.has('questions') && metadata.questionsThisExcerptCanAnswer) lines.push(`**Questions Answered:** ${metadata.questionsThisExcerptCanAnswer}`);
+  if (!dropped.has('node') && metadata.arangodb_node) lines.push(`**Graph Node:** ${JSON.stringify(metadata.arangodb_node)}`);
+  if (!dropped.has('neighbors') && Array.isArray(metadata.arangodb_neighbors) && metadata.arangodb_neighbors.length > 0) {
+    lines.push(`**Graph Neighbors (${metadata.arangodb_neighbors.length}):** ${JSON.stringify(metadata.arangodb_neighbors)}`);
+  }
+  lines.push(text);
+  return lines.join('\n');
+}
+
+/**
+ * Pack query hits into a markdown context block of at most `maxTokens` (estimated) tokens.
+ * Verbose sections are dropped from every hit first (graph JSON, then questions, keywords and scores);
+ * if that is not enough, hits are packed in rank order and the first one that does not fit is truncated.
+ * The block ends with a numbered citation list of the included hits.
+ */
+export function packQueryResults(hits: PackableHit[], answers: PackedAnswer[], maxTokens: number) {
+  const budget = maxTokens - NOTE_RESERVE_TOKENS;
+  const texts = hits.map(hit => (typeof hit.metadata?.chunk_text === 'string' ? hit.metadata.chunk_text : 'No text found'));
+
+  // Synthesized answers come first and may use at most half of the budget
+  let header = answers.map(a => `**Synthesized Answer${a.collectionId ? ` (collection ${a.collectionId})` : ''}:**\n${a.answer}\n\n`).join('');
+  if (estimateTokens(header) > budget / 2) header = `${truncateToTokens(header, Math.floor(budget / 2))}\n\n`;
+
+  const assemble = (blocks: string[], citations: string[]) =>
+    header + (blocks.length > 0 ? `${blocks.join('\n\n')}\n\n---\n**Sources:**\n${citations.join('\n')}`
+      : hits.length === 0 ? 'No results found.' : 'No results fit within the token budget.');
+
+  const citations = hits.map((hit, index) => citationLine(hit, index + 1));
+  const dropped = new Set<VerboseSection>();
+  let blocks: string[] = [];
+  let included = hits.length;
+  let truncated = false;
+
+  // Drop verbose sections one kind at a time until every hit fits
+  for (let level = 0; ; level++) {
+    blocks = hits.map((hit, index) => renderHit(hit, index + 1, texts[index], dropped));
+    if (estimateTokens(assemble(blocks, citations)) <= budget || level === VERBOSE_SECTIONS.length) break;
+    dropped.add(VERBOSE_SECTIONS[level]);
+  }
+
+  // Still over budget: pack hits in rank order, truncating the first one that does not fit
+  if (estimateTokens(assemble(blocks, citations)) > budget) {
+    blocks = [];
+    included = 0;
+    for (let index = 0; index < hits.length; index++) {
+      const full = renderHit(hits[index], index + 1, texts[index], dropped);
+      const withHit = assemble([...blocks, full], citations.slice(0, index + 1));
+      if (estimateTokens(withHit) <= budget) {
+        blocks.push(full);
+        included++;
+        continue;
+      }
+      const remaining = budget - estimateTokens(assemble([...blocks, renderHit(hits[index], index + 1, '', dropped)], citations.slice(0, index + 1)));
+      if (remaining >= MIN_TRUNCATED_TOKENS) {
+        texts[index] = truncateToTokens(texts[index], remaining);
+        blocks.push(renderHit(hits[index], index + 1, texts[index], dropped));
+        included++;
+        truncated = true;
+      }
+      break;
+    }
+  }
+
+  let summary = assemble(blocks, citations.slice(0, included));
+  const omitted = hits.length - included;
+  if (omitted > 0 || truncated || dropped.size > 0) {
+    const notes = [
+      omitted > 0 ? `${omitted} lower-ranked hits omitted` : undefined,
+      truncated ? `hit ${included} truncated` : undefined,
+      dropped.size > 0 ? `${[...dropped].join(', ')} sections dropped` : undefined,
+    ].filter(Boolean);
+    summary += `\n\n_Packed into a ${maxTokens}-token budget: ${notes.join('; ')}._`;
+  }
+
+  const data = {
+    maxTokens,
+    estimatedTokens: estimateTokens(summary),
+    answers,
+    results: hits.slice(0, included).map((hit, index) => ({
+      citation: index + 1,
+      fileName: hitFileName(hit),
+      fileId: hitFileId(hit) ?? null,
+      vectorId: hit.vector_id ?? null,
+      score: hit.score ?? null,
+      collections: hit.source_collections,
+      text: texts[index],
+      truncated: truncated && index === included - 1,
+    })),
+    omitted,
+    droppedSections: [...dropped],
+  };
+  return { summary, data };
+}
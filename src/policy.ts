@@ -0,0 +1,217 @@
+// Tool policy: read-only mode, tool allow/deny lists, collection allowlists and confirmation of destructive calls
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import crypto from 'crypto';
+import { VectraApiError, type VectraClient } from './client.js';
+import { ConfigError } from './config.js';
+import { buildToolResponse, type OutputFormat, type ToolResponse } from './output.js';
+
+// Tools that change data in Vectra; read-only mode hides and rejects them
+export const MUTATING_TOOLS = [
+  'create_collection',
+  'update_collection',
+  'delete_collection',
+  'add_file_to_collection',
+  'remove_file_from_collection',
+  'embed_texts',
+  'embed_files',
+  'sync_directory',
+  'import_collection',
+  'delete_file',
+];
+
+// Tools that delete data; they first report what they would delete and require a confirmation token.
+// sync_directory also deletes the files that disappeared from the directory, but only those deletions need a token
+export const DESTRUCTIVE_TOOLS = ['delete_collection', 'remove_file_from_collection', 'delete_file', 'sync_directory'];
+
+// Tools that take file IDs; with a collection allowlist, the files must belong to an allowed collection
+export const FILE_ID_TOOLS = ['add_file_to_collection', 'remove_file_from_collection', 'get_file_status', 'delete_file'];
+
+// Confirmation tokens expire after this long
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+export type PolicyConfig = {
+  readOnly: boolean;
+  allowTools?: string[]; // Only these tools are enabled, if set
+  denyTools?: string[];
+  allowedCollections?: string[]; // Only these collection IDs may be used, if set
+  confirmDestructive: boolean;
+};
+
+// Arguments that control the confirmation flow rather than the call itself
+type GuardArgs = { dryRun?: boolean; confirmationToken?: string; format?: OutputFormat };
+
+export class ToolPolicy {
+  private readonly tokens = new Map<string, { fingerprint: string; session: string; expiresAt: number }>();
+
+  constructor(private readonly config: PolicyConfig, toolNames: string[]) {
+    const unknown = [...config.allowTools ?? [], ...config.denyTools ?? []].filter(name => !toolNames.includes(name));
+    if (unknown.length > 0) {
+      throw new ConfigError(`Unknown tools in the policy allow/deny lists: ${unknown.join(', ')}`);
+    }
+  }
+
+  isToolEnabled(name: string): boolean {
+    if (this.config.readOnly && MUTATING_TOOLS.includes(name)) return false;
+    if (this.config.allowTools && !this.config.allowTools.includes(name)) return false;
+    return !this.config.denyTools?.includes(name);
+  }
+
+  assertToolAllowed(name: string) {
+    if (this.config.readOnly && MUTATING_TOOLS.includes(name)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Tool ${name} is disabled: the server is in read-only mode`);
+    }
+    if (!this.isToolEnabled(name)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Tool ${name} is disabled by the server policy`);
+    }
+  }
+
+  isCollectionAllowed(collectionId: string): boolean {
+    return !this.config.allowedCollections || this.config.allowedCollections.includes(collectionId);
+  }
+
+  // Reject calls that name a collection outside the allowlist
+  assertCollectionsAllowed(args: Record<string, unknown>) {
+    const ids = [args.collectionId, ...(Array.isArray(args.collectionIds) ? args.collectionIds : [])]
+      .filter((id): id is string => typeof id === 'string');
+    const denied = ids.filter(id => !this.isCollectionAllowed(id));
+    if (denied.length > 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `Collection ${denied.join(', ')} is not in the server's collection allowlist`);
+    }
+  }
+
+  /**
+   * Reject file IDs that are not in any allowed collection. The backend cannot list a file's collections,
+   * so the allowed collections' file listings are searched instead.
+   */
+  async assertFilesAllowed(client: VectraClient, fileIds: string[]) {
+    if (!this.config.allowedCollections || fileIds.length === 0) return;
+    const listings = await Promise.all(this.config.allowedCollections.map(collectionId =>
+      client.listCollectionFiles(collectionId).catch(error => {
+        if (error instanceof VectraApiError && error.status === 404) return []; // An allowed collection that no longer exists
+        throw error;
+      })
+    ));
+    const allowed = new Set(listings.flat().map(file => file.id));
+    const denied = fileIds.filter(id => !allowed.has(id));
+    if (denied.length > 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `File ${denied.join(', ')} is not in any collection of the server's collection allowlist`);
+    }
+  }
+
+  // The file IDs a call names, for tools that act on files by ID
+  fileIdsOf(name: string, args: Record<string, unknown>): string[] {
+    if (!FILE_ID_TOOLS.includes(name)) return [];
+    return [args.fileId, ...(Array.isArray(args.fileIds) ? args.fileIds : [])]
+      .filter((id): id is string => typeof id === 'string');
+  }
+
+  filterCollections<T extends { id: string }>(collections: T[]): T[] {
+    return collections.filter(collection => this.isCollectionAllowed(collection.id));
+  }
+
+  /**
+   * Run a destructive call, or report what it would delete.
+   * Without a valid confirmation token (when confirmation is on) or with dryRun, the call is described instead
+   * and a single-use token bound to these exact arguments and this client session is issued.
+   */
+  async guardDestructive(
+      client: VectraClient,
+      name: string,
+      args: Record<string, unknown> & GuardArgs,
+      session: string,
+      run: () => Promise<ToolResponse>
+  ): Promise<ToolResponse> {
+    const confirmation = this.confirmation(name, args, session);
+    if (!args.dryRun && confirmation.confirmed) return run();
+
+    const description = await describeDestructiveCall(client, name, args);
+    if (!description.found) {
+      return buildToolResponse(`Dry run: ${description.summary} Nothing would be deleted.`, { dryRun: true, ...description }, args.format);
+    }
+    const token = confirmation.issueToken();
+    const summary = [
+      `Dry run: ${description.summary}`,
+      `Nothing has been deleted. To proceed, call ${name} again with the same arguments and confirmationToken "${token}" (valid for ${CONFIRMATION_TTL_MS / 60000} minutes).`,
+    ].join('\n');
+    return buildToolResponse(summary, { dryRun: true, ...description, confirmationToken: token }, args.format);
+  }
+
+  /**
+   * Whether a call may delete data: confirmation is off, or the call carries a token issued to this session
+   * for the same arguments (an invalid token is rejected). Dry runs never consume their token.
+   * Also used by sync_directory, which only needs confirmation for some of its work.
+   */
+  confirmation(name: string, args: Record<string, unknown> & GuardArgs, session: string): { confirmed: boolean; issueToken: () => string } {
+    const fingerprint = callFingerprint(name, args);
+    const issueToken = () => this.issueToken(fingerprint, session);
+    if (!this.config.confirmDestructive) return { confirmed: true, issueToken };
+    if (args.dryRun || args.confirmationToken === undefined) return { confirmed: false, issueToken };
+    this.consumeToken(args.confirmationToken, fingerprint, session);
+    return { confirmed: true, issueToken };
+  }
+
+  private issueToken(fingerprint: string, session: string): string {
+    const now = Date.now();
+    for (const [token, entry] of this.tokens) {
+      if (entry.expiresAt <= now) this.tokens.delete(token);
+    }
+    const token = crypto.randomBytes(16).toString('hex');
+    this.tokens.set(token, { fingerprint, session, expiresAt: now + CONFIRMATION_TTL_MS });
+    return token;
+  }
+
+  private consumeToken(token: string, fingerprint: string, session: string) {
+    const entry = this.tokens.get(token);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.tokens.delete(token);
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid or expired confirmationToken: call again without it to get a new one');
+    }
+    // Tokens are not bearer credentials: another client connected to the same server cannot use them
+    if (entry.session !== session) {
+      throw new McpError(ErrorCode.InvalidParams, 'confirmationToken was issued to a different client session: call again without it to get a new one');
+    }
+    if (entry.fingerprint !== fingerprint) {
+      throw new McpError(ErrorCode.InvalidParams, 'confirmationToken was issued for a different call: the arguments must match the dry run exactly');
+    }
+    this.tokens.delete(token);
+  }
+}
+
+// Identify a call by its tool and arguments, ignoring the confirmation flow and output format
+function callFingerprint(name: string, args: Record<string, unknown>): string {
+  const { dryRun, confirmationToken, format, ...callArgs } = args;
+  const sorted = Object.fromEntries(Object.entries(callArgs).sort(([a], [b]) => a.localeCompare(b)));
+  return crypto.createHash('sha256').update(JSON.stringify([name, sorted])).digest('hex');
+}
+
+// Look up what a destructive call would delete; missing records are reported rather than thrown
+async function describeDestructiveCall(client: VectraClient, name: string, args: Record<string, unknown>) {
+  const notFound = (error: unknown) => error instanceof VectraApiError && error.status === 404;
+  try {
+    switch (name) {
+      case 'delete_file': {
+        const file = await client.getFile(String(args.fileId));
+        return { found: true, summary: `delete_file would delete file "${file.filename ?? 'unknown'}" (ID: ${file.id ?? args.fileId}) and all of its embeddings.`, target: { fileId: args.fileId, filename: file.filename ?? null } };
+      }
+      case 'delete_collection': {
+        const collectionId = String(args.collectionId);
+        const collection = (await client.listCollections()).find(col => col.id === collectionId);
+        if (!collection) return { found: false, summary: `collection ${collectionId} does not exist.`, target: { collectionId } };
+        const stats = await client.getCollectionStats(collectionId);
+        return { found: true, summary: `delete_collection would delete collection "${collection.name}" (ID: ${collectionId}). Its ${stats.fileCount} files would stay embedded.`, target: { collectionId, name: collection.name, fileCount: stats.fileCount } };
+      }
+      case 'remove_file_from_collection': {
+        const collectionId = String(args.collectionId);
+        const fileId = String(args.fileId);
+        const file = (await client.listCollectionFiles(collectionId)).find(f => f.id === fileId);
+        if (!file) return { found: false, summary: `file ${fileId} is not in collection ${collectionId}.`, target: { collectionId, fileId } };
+        return { found: true, summary: `remove_file_from_collection would detach file "${file.filename ?? 'unknown'}" (ID: ${fileId}) from collection ${collectionId}. The file itself would not be deleted.`, target: { collectionId, fileId, filename: file.filename ?? null } };
+      }
+      default:
+        throw new McpError(ErrorCode.InternalError, `No dry run is defined for ${name}`);
+    }
+  } catch (error) {
+    if (!notFound(error)) throw error;
+    return { found: false, summary: `the target of ${name} does not exist.`, target: null };
+  }
+}
@@ -0,0 +1,43 @@
+// Progress reporting and cancellation for long-running batch tools
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+const log = logger.child('progress');
+
+// Per-request controls passed from the dispatcher into batch handlers
+export type BatchControl = {
+  signal?: AbortSignal; // Aborted when the client cancels the request
+  onProgress?: (processed: number, total: number) => void; // Called after each processed item
+};
+
+// Build a progress callback that emits MCP progress notifications for the request's progress token
+export function createProgressNotifier(server: Server, progressToken?: ProgressToken): BatchControl['onProgress'] {
+  if (progressToken === undefined) return undefined;
+  return (progress, total) => {
+    server.notification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total },
+    }).catch(error => log.warning('Failed to send a progress notification', { error }));
+  };
+}
+
+// Wrap a batch worker so that every processed item (success or failure) reports progress
+export function withProgress<T, R>(
+    total: number,
+    control: BatchControl | undefined,
+    worker: (item: T, index: number) => Promise<R>
+): (item: T, index: number) => Promise<R> {
+  let processed = 0;
+  return async (item, index) => {
+    const result = await worker(item, index);
+    control?.onProgress?.(++processed, total);
+    return result;
+  };
+}
+
+// Describe a batch that stopped early because the client cancelled the request
+export function cancellationNote(processed: number, total: number, control?: BatchControl): string | undefined {
+  if (!control?.signal?.aborted || processed >= total) return undefined;
+  return `Cancelled by the client after ${processed} of ${total} items; the remaining ${total - processed} items were not uploaded.`;
+}
@@ -0,0 +1,178 @@
+// Query payload construction for the /query endpoint, and federated queries across collections
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { QueryRequest, QueryResult, VectraClient } from './client.js';
+import type { QueryDefaults } from './config.js';
+import type { QueryCollectionArgs, QueryCollectionsArgs, QueryOptionsArgs } from './validators.js';
+import { formatResponse } from './handlers.js';
+import { hasPostProcessing, normalizedScores, postProcessHits, type ProcessedQueryResult } from './ranking.js';
+import { buildToolResponse, type OutputFormat } from './output.js';
+import { packQueryResults } from './packing.js';
+import { QueryOptionProperties } from './tools.js';
+
+// With post-processing, fetch this many times the requested hits (up to MAX_CANDIDATES) to leave room for collapsing and diversification
+const CANDIDATE_MULTIPLIER = 3;
+const MAX_CANDIDATES = 100;
+
+// A merged hit from a federated query, tagged with the collections it was found in
+export type FusedQueryResult = ProcessedQueryResult & {
+  source_collections: string[];
+  fused_score: number;
+};
+
+// Sends a /query request; the server passes one that goes through the query cache
+export type QueryRunner = (request: QueryRequest) => Promise<QueryResult[]>;
+
+export type SynthesizedAnswer = { collectionId: string; answer: string };
+
+export type FederatedQueryResponse = {
+  results: FusedQueryResult[];
+  answers: SynthesizedAnswer[];
+  failures: Array<{ collectionId: string; error: string }>;
+};
+
+// Resolve the hybrid weights: a single weight implies its complement, two weights are normalized to sum to 1
+function resolveHybridWeights(vectorWeight?: number, keywordWeight?: number): { vectorWeight?: number; keywordWeight?: number } {
+  if (vectorWeight === undefined && keywordWeight === undefined) return {};
+  if (keywordWeight === undefined) return { vectorWeight, keywordWeight: 1 - vectorWeight! };
+  if (vectorWeight === undefined) return { vectorWeight: 1 - keywordWeight, keywordWeight };
+  const total = vectorWeight + keywordWeight;
+  if (total === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'vectorWeight and keywordWeight cannot both be 0');
+  }
+  return { vectorWeight: vectorWeight / total, keywordWeight: keywordWeight / total };
+}
+
+/**
+ * Fill in the deployment's query defaults under a call's arguments. Default weights only apply to hybrid search:
+ * a call that picks another searchMode would otherwise be rejected for weights it never passed.
+ */
+export function applyQueryDefaults(defaults: QueryDefaults, args: Record<string, unknown>): Record<string, unknown> {
+  const withDefaults: Record<string, unknown> = { ...structuredClone(defaults), ...args };
+  if ((withDefaults.searchMode ?? QueryOptionProperties.searchMode.default) !== 'hybrid') {
+    if (args.vectorWeight === undefined) delete withDefaults.vectorWeight;
+    if (args.keywordWeight === undefined) delete withDefaults.keywordWeight;
+  }
+  return withDefaults;
+}
+
+// Build the /query payload from validated query arguments
+export function buildQueryRequest(args: QueryOptionsArgs & { collectionId: string }): QueryRequest {
+  if (args.searchMode !== 'hybrid' && (args.vectorWeight !== undefined || args.keywordWeight !== undefined)) {
+    throw new McpError(ErrorCode.InvalidParams, `vectorWeight and keywordWeight only apply to hybrid search, not searchMode "${args.searchMode}"`);
+  }
+
+  return {
+    collectionId: args.collectionId,
+    queryText: args.queryText,
+    limit: args.limit,
+    searchMode: args.searchMode,
+    ...(args.searchMode === 'hybrid' && resolveHybridWeights(args.vectorWeight, args.keywordWeight)),
+    maxDistance: args.maxDistance,
+    includeMetadataFilters: args.includeMetadataFilters,
+    excludeMetadataFilters: args.excludeMetadataFilters,
+    enableGraphSearch: args.enableGraphSearch,
+    // Graph parameters are only sent when graph expansion is on
+    ...(args.enableGraphSearch && {
+      graphDepth: args.graphDepth,
+      graphTopN: args.graphTopN,
+      graphRelationshipTypes: args.graphRelationshipTypes,
+      graphTraversalDirection: args.graphTraversalDirection,
+    }),
+  };
+}
+
+// Number of hits to fetch so post-processing still has `limit` hits to choose from
+function candidateLimit(args: QueryOptionsArgs, limit: number): number {
+  return hasPostProcessing(args) ? Math.max(limit, Math.min(limit * CANDIDATE_MULTIPLIER, MAX_CANDIDATES)) : limit;
+}
+
+// Handler for the query_collection tool
+export async function handleQueryCollection(
+    client: VectraClient,
+    args: QueryCollectionArgs,
+    runQuery: QueryRunner = request => client.query(request),
+    format: OutputFormat = 'markdown'
+) {
+  const results = postProcessHits(await runQuery(buildQueryRequest({ ...args, limit: candidateLimit(args, args.limit) })), args, args.limit);
+  if (args.maxTokens !== undefined) {
+    const synthesizedAnswer = results[0]?.synthesized_answer;
+    const { summary, data } = packQueryResults(results, typeof synthesizedAnswer === 'string' ? [{ answer: synthesizedAnswer }] : [], args.maxTokens);
+    return buildToolResponse(summary, data, format);
+  }
+  return formatResponse('query_collection', results, format);
+}
+
+// --- Federated Queries ---
+
+/**
+ * Merge per-collection result lists into one ranking.
+ * With 'rrf' each hit scores 1 / (k + rank), summed when the same chunk is found in several collections;
+ * with 'score' each hit keeps its best normalized score.
+ */
+export function fuseResults(
+    resultSets: Array<{ collectionId: string; results: QueryResult[] }>,
+    fusion: 'rrf' | 'score',
+    rrfK: number,
+    limit: number
+): FusedQueryResult[] {
+  const fused = new Map<string, FusedQueryResult>();
+  for (const { collectionId, results } of resultSets) {
+    const scores = fusion === 'score' ? normalizedScores(results) : results.map((_, rank) => 1 / (rrfK + rank + 1));
+    results.forEach((hit, rank) => {
+      // The same chunk can be found in several collections, since a file can belong to more than one
+      const key = hit.vector_id ?? `${collectionId}#${rank}`;
+      const existing = fused.get(key);
+      if (existing) {
+        existing.source_collections.push(collectionId);
+        existing.fused_score = fusion === 'rrf' ? existing.fused_score + scores[rank] : Math.max(existing.fused_score, scores[rank]);
+        return;
+      }
+      // Synthesized answers belong to a collection, not to a hit; they are reported separately
+      const { synthesized_answer, ...rest } = hit;
+      fused.set(key, { ...rest, source_collections: [collectionId], fused_score: scores[rank] });
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.fused_score - a.fused_score).slice(0, limit);
+}
+
+// Handler for the query_collections tool: fan out to /query in parallel and merge the hits
+export async function handleQueryCollections(
+    client: VectraClient,
+    args: QueryCollectionsArgs,
+    runQuery: QueryRunner = request => client.query(request),
+    format: OutputFormat = 'markdown'
+) {
+  const collectionIds = [...new Set(args.collectionIds)];
+  // Build the payload once, so invalid options fail before any request is sent
+  const template = buildQueryRequest({ ...args, collectionId: collectionIds[0], limit: candidateLimit(args, args.perCollectionLimit ?? args.limit) });
+
+  const settled = await Promise.allSettled(collectionIds.map(collectionId => runQuery({ ...template, collectionId })));
+
+  const resultSets: Array<{ collectionId: string; results: QueryResult[] }> = [];
+  const failures: FederatedQueryResponse['failures'] = [];
+  settled.forEach((outcome, index) => {
+    const collectionId = collectionIds[index];
+    if (outcome.status === 'fulfilled') {
+      resultSets.push({ collectionId, results: outcome.value });
+    } else {
+      failures.push({ collectionId, error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error' });
+    }
+  });
+  if (resultSets.length === 0) {
+    throw new McpError(ErrorCode.InternalError, `All collection queries failed: ${failures.map(f => `${f.collectionId} (${f.error})`).join(', ')}`);
+  }
+
+  const answers = resultSets
+    .filter(set => typeof set.results[0]?.synthesized_answer === 'string')
+    .map(set => ({ collectionId: set.collectionId, answer: set.results[0].synthesized_answer! }));
+  const response: FederatedQueryResponse = {
+    results: postProcessHits(fuseResults(resultSets, args.fusion, args.rrfK, candidateLimit(args, args.limit)), args, args.limit),
+    answers,
+    failures,
+  };
+  if (args.maxTokens !== undefined) {
+    const { summary, data } = packQueryResults(response.results, answers, args.maxTokens);
+    return buildToolResponse(summary, { ...data, failures }, format);
+  }
+  return formatResponse('query_collections', response, format);
+}
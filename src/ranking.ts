@@ -0,0 +1,202 @@
+// Relevance scoring and post-processing of query hits: per-file collapsing, MMR diversification and adjacent chunk merging
+import type { QueryResult } from './client.js';
+
+// A query hit after post-processing
+export type ProcessedQueryResult = QueryResult & {
+  fused_score?: number; // Set on federated hits
+  merged_vector_ids?: string[]; // Vector IDs of the adjacent chunks merged into this passage
+  collapsed_count?: number; // Number of further hits from the same file that were dropped
+};
+
+export type PostProcessingOptions = {
+  maxHitsPerFile?: number;
+  diversify?: boolean;
+  diversityLambda: number; // 1 = relevance only, 0 = diversity only
+  mergeAdjacentChunks?: boolean;
+};
+
+// Adjacent chunks overlapping by fewer characters than this are joined rather than de-duplicated
+const MIN_CHUNK_OVERLAP = 10;
+
+// Raw relevance of a hit, higher is better: the score if present, otherwise the negated distance
+function relevance(hit: QueryResult): number | undefined {
+  if (typeof hit.score === 'number') return hit.score;
+  if (typeof hit.distance === 'number') return -hit.distance;
+  return undefined;
+}
+
+// Min-max normalize a list of raw values to 0-1; hits without a value score 0
+function minMaxNormalize(raw: Array<number | undefined>): number[] {
+  const known = raw.filter((value): value is number => value !== undefined);
+  if (known.length === 0) {
+    // No scores at all: fall back to rank order
+    return raw.map((_, rank) => 1 - rank / raw.length);
+  }
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  return raw.map(value => value === undefined ? 0 : max === min ? 1 : (value - min) / (max - min));
+}
+
+// Min-max normalize one collection's relevances to 0-1 so scores from different collections are comparable
+export function normalizedScores(results: QueryResult[]): number[] {
+  return minMaxNormalize(results.map(relevance));
+}
+
+// Normalized relevance of post-processed hits, using the fused score of federated hits
+function hitRelevances(hits: ProcessedQueryResult[]): number[] {
+  return hits.every(hit => typeof hit.fused_score === 'number')
+    ? minMaxNormalize(hits.map(hit => hit.fused_score))
+    : normalizedScores(hits);
+}
+
+const hitText = (hit: QueryResult) => (typeof hit.metadata?.chunk_text === 'string' ? hit.metadata.chunk_text : '');
+const hitFileId = (hit: QueryResult) => hit.file_id ?? (typeof hit.metadata?.file_id === 'string' ? hit.metadata.file_id : undefined);
+
+// Position of a chunk within its file, if the backend reports it
+function chunkIndex(hit: QueryResult): number | undefined {
+  const raw = hit.metadata?.chunk_index ?? hit.metadata?.chunkIndex;
+  const index = typeof raw === 'string' ? Number(raw) : raw;
+  return typeof index === 'number' && Number.isInteger(index) ? index : undefined;
+}
+
+// --- Adjacent Chunk Merging ---
+
+// Join two consecutive chunks, dropping the text they share at the boundary
+function joinChunks(first: string, second: string): string {
+  for (let overlap = Math.min(first.length, second.length); overlap >= MIN_CHUNK_OVERLAP; overlap--) {
+    if (first.endsWith(second.slice(0, overlap))) return first + second.slice(overlap);
+  }
+  return `${first}\n${second}`;
+}
+
+// Merge hits on consecutive chunks of the same file into one passage, placed at its best hit's rank
+export function mergeAdjacentChunks<T extends ProcessedQueryResult>(hits: T[]): T[] {
+  const runsByFile = new Map<string, T[]>();
+  for (const hit of hits) {
+    const fileId = hitFileId(hit);
+    if (fileId === undefined || chunkIndex(hit) === undefined) continue;
+    runsByFile.set(fileId, [...(runsByFile.get(fileId) ?? []), hit]);
+  }
+
+  const replacements = new Map<T, T | null>(); // null = merged away
+  for (const fileHits of runsByFile.values()) {
+    const sorted = [...fileHits].sort((a, b) => chunkIndex(a)! - chunkIndex(b)!);
+    let run: T[] = [];
+    const flush = () => {
+      if (run.length > 1) {
+        const best = run.reduce((a, b) => (hits.indexOf(a) <= hits.indexOf(b) ? a : b)); // Highest-ranked hit of the run
+        const vectorIds = run.map(hit => hit.vector_id).filter((id): id is string => typeof id === 'string');
+        replacements.set(best, {
+          ...best,
+          metadata: { ...best.metadata, chunk_text: run.map(hitText).reduce(joinChunks) },
+          merged_vector_ids: vectorIds,
+        });
+        run.filter(hit => hit !== best).forEach(hit => replacements.set(hit, null));
+      }
+      run = [];
+    };
+    for (const hit of sorted) {
+      const previous = run[run.length - 1];
+      if (previous && chunkIndex(hit)! > chunkIndex(previous)! + 1) flush();
+      // Duplicate hits on the same chunk are kept out of the passage text
+      if (!previous || chunkIndex(hit) !== chunkIndex(previous)) run.push(hit);
+    }
+    flush();
+  }
+
+  return hits.flatMap(hit => {
+    const replacement = replacements.get(hit);
+    if (replacement === undefined) return [hit];
+    return replacement === null ? [] : [replacement];
+  });
+}
+
+// --- Per-File Collapsing ---
+
+// Keep at most maxPerFile hits per file, counting the dropped ones on the file's top hit
+export function collapseByFile<T extends ProcessedQueryResult>(hits: T[], maxPerFile: number): T[] {
+  const kept: T[] = [];
+  const keptByFile = new Map<string, T[]>();
+  for (const hit of hits) {
+    const fileId = hitFileId(hit);
+    if (fileId === undefined) {
+      kept.push(hit);
+      continue;
+    }
+    const fileHits = keptByFile.get(fileId) ?? [];
+    if (fileHits.length < maxPerFile) {
+      const copy = { ...hit };
+      fileHits.push(copy);
+      keptByFile.set(fileId, fileHits);
+      kept.push(copy);
+    } else {
+      fileHits[0].collapsed_count = (fileHits[0].collapsed_count ?? 0) + 1;
+    }
+  }
+  return kept;
+}
+
+// --- MMR Diversification ---
+
+// Term-frequency vector of a text, for cosine similarity between hits
+function termVector(text: string): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const term of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (term.length > 1) vector.set(term, (vector.get(term) ?? 0) + 1);
+  }
+  return vector;
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, count] of a) dot += count * (b.get(term) ?? 0);
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, count) => sum + count * count, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Select `limit` hits by maximal marginal relevance: each pick maximizes
+ * lambda * relevance - (1 - lambda) * (highest text similarity to an already selected hit).
+ */
+export function diversifyByMmr<T extends ProcessedQueryResult>(hits: T[], limit: number, lambda: number): T[] {
+  const relevances = hitRelevances(hits);
+  const vectors = hits.map(hit => termVector(hitText(hit)));
+  const remaining = hits.map((_, index) => index);
+  const maxSimilarity = hits.map(() => 0); // Highest similarity of each hit to the selection so far
+  const selected: number[] = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestPosition = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((index, position) => {
+      const score = lambda * relevances[index] - (1 - lambda) * maxSimilarity[index];
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+    const [picked] = remaining.splice(bestPosition, 1);
+    selected.push(picked);
+    for (const index of remaining) {
+      maxSimilarity[index] = Math.max(maxSimilarity[index], cosineSimilarity(vectors[index], vectors[picked]));
+    }
+  }
+  return selected.map(index => hits[index]);
+}
+
+// --- Pipeline ---
+
+export function hasPostProcessing(options: PostProcessingOptions): boolean {
+  return Boolean(options.mergeAdjacentChunks || options.maxHitsPerFile !== undefined || options.diversify);
+}
+
+// Merge adjacent chunks, cap hits per file, then diversify (or keep rank order) down to `limit` hits
+export function postProcessHits<T extends ProcessedQueryResult>(hits: T[], options: PostProcessingOptions, limit: number): T[] {
+  let processed = hits;
+  if (options.mergeAdjacentChunks) processed = mergeAdjacentChunks(processed);
+  if (options.maxHitsPerFile !== undefined) processed = collapseByFile(processed, options.maxHitsPerFile);
+  return options.diversify
+    ? diversifyByMmr(processed, limit, options.diversityLambda)
+    : processed.slice(0, limit);
+}
@@ -0,0 +1,117 @@
+// Defines the resources provided by the Vectra MCP Server
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { VectraApiError, type VectraClient } from './client.js';
+import { logger } from './logger.js';
+
+const log = logger.child('resources');
+
+export const RESOURCE_URI_SCHEME = 'vectra://';
+
+// Static resources that are always available
+export const COLLECTIONS_RESOURCE = {
+  uri: `${RESOURCE_URI_SCHEME}collections`,
+  name: 'Vectra collections',
+  description: 'Listing of all Vectra collections',
+  mimeType: 'text/markdown',
+};
+
+// Resource templates for parameterized resources
+export const resourceTemplatesList = [
+  {
+    uriTemplate: `${RESOURCE_URI_SCHEME}collections/{collectionId}`,
+    name: 'Vectra collection',
+    description: 'Listing of the files within a specific Vectra collection',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: `${RESOURCE_URI_SCHEME}files/{fileId}`,
+    name: 'Vectra file',
+    description: 'Content and metadata of a specific embedded Vectra file',
+    mimeType: 'text/plain',
+  },
+];
+
+// --- Helpers ---
+
+// Collections outside the server's allowlist are hidden from the resources
+type CollectionFilter = (collectionId: string) => boolean;
+// Rejects files that are not in an allowed collection
+type FileCheck = (fileId: string) => Promise<void>;
+
+// Run a client call, reporting missing records as an unknown resource
+async function fetchResource<T>(description: string, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    if (error instanceof VectraApiError && error.status === 404) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${description}`);
+    }
+    log.error(`Failed to read resource ${description}`, { error });
+    throw error;
+  }
+}
+
+// --- Resource Handlers ---
+
+// List the static resources plus one resource per existing collection
+export async function listResources(client: VectraClient, isCollectionAllowed: CollectionFilter = () => true) {
+  const collections = (await fetchResource('collections', () => client.listCollections())).filter(col => isCollectionAllowed(col.id));
+  return {
+    resources: [
+      COLLECTIONS_RESOURCE,
+      ...collections.map(col => ({
+        uri: `${RESOURCE_URI_SCHEME}collections/${col.id}`,
+        name: `Collection: ${col.name}`,
+        description: col.description || `Files in Vectra collection ${col.name}`,
+        mimeType: 'text/markdown',
+      })),
+    ],
+  };
+}
+
+// Read a vectra:// resource by URI
+export async function readResource(
+    client: VectraClient,
+    uri: string,
+    isCollectionAllowed: CollectionFilter = () => true,
+    assertFileAllowed: FileCheck = async () => {}
+) {
+  if (!uri.startsWith(RESOURCE_URI_SCHEME)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+  const [kind, id, ...rest] = uri.slice(RESOURCE_URI_SCHEME.length).split('/');
+
+  if (kind === 'collections' && id === undefined) {
+    const collections = (await fetchResource('collections', () => client.listCollections())).filter(col => isCollectionAllowed(col.id));
+    const text = collections.length > 0
+      ? "Collections:\n" + collections.map(col => `- ${col.name} (ID: ${col.id})${col.description ? ` - ${col.description}` : ''}`).join('\n')
+      : "No collections found.";
+    return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+  }
+
+  if (kind === 'collections' && id && rest.length === 0) {
+    const collectionId = decodeURIComponent(id);
+    if (!isCollectionAllowed(collectionId)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Collection ${collectionId} is not in the server's collection allowlist`);
+    }
+    const files = await fetchResource(`collection ${collectionId}`, () => client.listCollectionFiles(collectionId));
+    const text = files.length > 0
+      ? `Files in collection ${collectionId}:\n` + files.map(file => `- ${file.filename || 'Unknown filename'}${file.id ? ` (ID: ${file.id}, URI: ${RESOURCE_URI_SCHEME}files/${file.id})` : ''}`).join('\n')
+      : "No files found in this collection.";
+    return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+  }
+
+  if (kind === 'files' && id && rest.length === 0) {
+    const fileId = decodeURIComponent(id);
+    await assertFileAllowed(fileId);
+    const file = await fetchResource(`file ${fileId}`, () => client.getFile(fileId));
+    // Prefer the stored file content; fall back to the file record itself
+    const content = file.content ?? file.text;
+    if (typeof content === 'string') {
+      return { contents: [{ uri, mimeType: file.mimeType || 'text/plain', text: content }] };
+    }
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(file, null, 2) }] };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
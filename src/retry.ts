@@ -0,0 +1,143 @@
+// Retry with backoff, client-side rate limiting and bounded concurrency for Vectra API calls
+import type { AxiosInstance, AxiosResponse } from 'axios';
+import { AxiosError } from 'axios';
+import {
+  MAX_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  REQUESTS_PER_SECOND,
+} from './config.js';
+import { logger } from './logger.js';
+
+const log = logger.child('api');
+
+// Statuses worth retrying: rate limited or temporarily unavailable
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+// Statuses that mean the backend turned the request away without processing it
+const REJECTED_STATUSES = new Set([429, 503]);
+
+// Connection failures that happen before any of the request is sent
+const NOT_SENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+// A failed attempt: the response status if the backend answered, otherwise the thrown error
+export type AttemptFailure = { status?: number; error?: unknown };
+
+export type RetryOptions = {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (failure: AttemptFailure) => boolean; // Default: isTransientFailure
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Parse a Retry-After header (seconds or HTTP date) into milliseconds
+export function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== 'string' && typeof header !== 'number') return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter, capped at maxDelayMs
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+// Rate limited, temporarily unavailable, or no response at all (a network error or timeout)
+export function isTransientFailure(failure: AttemptFailure): boolean {
+  if (failure.status !== undefined) return RETRYABLE_STATUSES.has(failure.status);
+  return failure.error instanceof AxiosError;
+}
+
+/**
+ * Failures after which the backend certainly did not act on the request, so even a request that is not
+ * idempotent (e.g. an upload) can be sent again without creating a duplicate. Timeouts and dropped
+ * connections are not among them: the backend may have received the request.
+ */
+export function isRejectedBeforeProcessing(failure: AttemptFailure): boolean {
+  if (failure.status !== undefined) return REJECTED_STATUSES.has(failure.status);
+  return failure.error instanceof AxiosError && NOT_SENT_ERROR_CODES.has(failure.error.code ?? '');
+}
+
+// Extract the response (if any) from a resolved response or a thrown error, and decide whether to retry
+function retryableResponse(
+    result: { response?: AxiosResponse; error?: unknown },
+    shouldRetry: (failure: AttemptFailure) => boolean
+): { retry: boolean; response?: AxiosResponse } {
+  const response = result.response ?? (result.error instanceof AxiosError ? result.error.response : undefined);
+  if (result.response && result.response.status < 400) return { retry: false, response };
+  return { retry: shouldRetry({ status: response?.status, error: result.error }), response };
+}
+
+/**
+ * Run an axios request, retrying transient failures (429/5xx/network, or as decided by shouldRetry)
+ * with exponential backoff. A Retry-After header from the backend takes precedence over the computed delay.
+ */
+export async function withRetry(request: () => Promise<AxiosResponse>, options: RetryOptions = {}): Promise<AxiosResponse> {
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? RETRY_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? RETRY_MAX_DELAY_MS;
+  const shouldRetry = options.shouldRetry ?? isTransientFailure;
+
+  for (let attempt = 0; ; attempt++) {
+    let result: { response?: AxiosResponse; error?: unknown };
+    try {
+      result = { response: await request() };
+    } catch (error) {
+      result = { error };
+    }
+
+    const { retry, response } = retryableResponse(result, shouldRetry);
+    if (!retry || attempt >= maxRetries) {
+      if (result.error !== undefined) throw result.error;
+      return result.response!;
+    }
+
+    const retryAfter = parseRetryAfter(response?.headers?.['retry-after']);
+    const delay = retryAfter !== undefined ? Math.min(retryAfter, maxDelayMs) : backoffDelay(attempt, baseDelayMs, maxDelayMs);
+    log.warning(`Transient Vectra API failure, retrying in ${Math.round(delay)}ms`, { status: response?.status ?? null, error: result.error, attempt: attempt + 1, maxRetries });
+    await sleep(delay);
+  }
+}
+
+/**
+ * Install a client-side requests-per-second limiter on an axios instance.
+ * Requests are spaced evenly; a rate of 0 or less disables the limiter.
+ */
+export function installRateLimiter(axiosInstance: AxiosInstance, requestsPerSecond: number = REQUESTS_PER_SECOND) {
+  if (!(requestsPerSecond > 0)) return;
+  const intervalMs = 1000 / requestsPerSecond;
+  let nextSlot = 0;
+  axiosInstance.interceptors.request.use(async (config) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + intervalMs;
+    if (slot > now) await sleep(slot - now);
+    return config;
+  });
+}
+
+/**
+ * Map items through an async worker with at most `concurrency` in flight, preserving order.
+ * Once `signal` is aborted no further items are started; their results are left undefined.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<Array<R | undefined>> {
+  const results = new Array<R | undefined>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,106 @@
+// Validation of tool arguments against their JSON schemas (the subset of JSON Schema used in tools.ts)
+
+export type JsonSchema = {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: readonly JsonSchema[]; // Only `required` alternatives are supported (e.g. value or pattern)
+};
+
+// Name a value for error messages: `items[3].metadata.tag`, or `arguments` at the root
+const describe = (path: string) => path || 'arguments';
+const child = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeError(schema: JsonSchema, value: unknown): string | undefined {
+  switch (schema.type) {
+    case 'object': return isPlainObject(value) ? undefined : 'must be an object';
+    case 'array': return Array.isArray(value) ? undefined : 'must be an array';
+    case 'string': return typeof value === 'string' ? undefined : 'must be a string';
+    case 'boolean': return typeof value === 'boolean' ? undefined : 'must be a boolean';
+    case 'number': return typeof value === 'number' && Number.isFinite(value) ? undefined : 'must be a number';
+    case 'integer': return Number.isInteger(value) ? undefined : 'must be an integer';
+    default: return undefined;
+  }
+}
+
+/**
+ * Validate `value` against `schema`, filling in schema defaults for missing object properties (in place).
+ * Returns one message per problem, each naming the offending path, e.g. `items[3].metadata.tag must be a string`.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path: string = ''): string[] {
+  const typeProblem = typeError(schema, value);
+  if (typeProblem) return [`${describe(path)} ${typeProblem}`];
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${describe(path)} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${describe(path)} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${describe(path)} must be at most ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push(`${describe(path)} must be greater than ${schema.exclusiveMinimum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push(schema.minLength === 1 ? `${describe(path)} must not be empty` : `${describe(path)} must be at least ${schema.minLength} characters long`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(schema.minItems === 1 ? `${describe(path)} must not be empty` : `${describe(path)} must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${describe(path)} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateAgainstSchema(schema.items!, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) errors.push(`${child(path, key)} is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (value[key] === undefined) {
+        // Copy defaults so a mutable default (array/object) is never shared between calls
+        if (propertySchema.default !== undefined) value[key] = structuredClone(propertySchema.default);
+        continue;
+      }
+      errors.push(...validateAgainstSchema(propertySchema, value[key], child(path, key)));
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (key in properties || propertyValue === undefined) continue;
+      if (schema.additionalProperties === false) {
+        errors.push(`${child(path, key)} is not an allowed property`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateAgainstSchema(schema.additionalProperties, propertyValue, child(path, key)));
+      }
+    }
+    if (schema.anyOf && !schema.anyOf.some(alternative => (alternative.required ?? []).every(key => value[key] !== undefined))) {
+      const options = schema.anyOf.map(alternative => (alternative.required ?? []).join(' and ')).join(' or ');
+      errors.push(`${describe(path)} must include ${options}`);
+    }
+  }
+
+  return errors;
+}
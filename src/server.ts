@@ -3,47 +3,122 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import axios, { type AxiosInstance } from 'axios';
+import crypto from 'crypto';
 // Removed FirecrawlApp import
-import { VECTRA_API_URL, VECTRA_API_KEY } from './config.js'; // Import API Key
-import { toolsList } from './tools.js';
-// Import specific validators including the new one
+import type { QueryDefaults, ServerConfig } from './config.js';
+import { configureTools, DEFAULT_COLLECTION_TOOLS, QUERY_TOOLS, toolsList } from './tools.js';
+import { BackendRegistry } from './backends.js';
+import { listResources, readResource, resourceTemplatesList } from './resources.js';
 import {
-  isValidCreateCollectionArgs,
-  isValidListCollectionsArgs,
-  // isValidEmbedFileArgs, // Removed
-  // isValidEmbedTextArgs, // Removed
-  isValidAddFileToCollectionArgs,
-  isValidListFilesInCollectionArgs,
-  isValidQueryCollectionArgs,
-  isValidDeleteFileArgs,
-  isValidEmbedTextsArgs,
-  isValidEmbedFilesArgs, // Added new validator import
-  isValidGetArangoDbNodeArgs // Import the new validator
+  assertValidCreateCollectionArgs,
+  assertValidListCollectionsArgs,
+  assertValidUpdateCollectionArgs,
+  assertValidDeleteCollectionArgs,
+  assertValidGetCollectionStatsArgs,
+  assertValidAddFileToCollectionArgs,
+  assertValidRemoveFileFromCollectionArgs,
+  assertValidListFilesInCollectionArgs,
+  assertValidQueryCollectionArgs,
+  assertValidQueryCollectionsArgs,
+  assertValidDeleteFileArgs,
+  assertValidEmbedTextsArgs,
+  assertValidEmbedFilesArgs,
+  assertValidSyncDirectoryArgs,
+  assertValidExportCollectionArgs,
+  assertValidImportCollectionArgs,
+  assertValidGetFileStatusArgs,
+  assertValidGetGraphNodeArgs,
+  assertValidListGraphNeighborsArgs,
+  assertValidFindGraphPathsArgs,
+  assertValidListBackendsArgs,
+  assertValidQueryAuditLogArgs,
+  assertValidGetDiagnosticsArgs,
 } from './validators.js';
 // Import new handler, remove unused ones
 import { handleApiCall, handleEmbedTexts, handleEmbedFiles } from './handlers.js';
+import { handleSyncDirectory } from './sync.js';
+import { handleExportCollection, handleImportCollection } from './archive.js';
+import { applyQueryDefaults, handleQueryCollection, handleQueryCollections, type QueryRunner } from './query.js';
+import { handleGetFileStatus, isTerminal, type EmbeddingState, type FileStatus } from './status.js';
+import { ListingSnapshots } from './listing.js';
+import { createProgressNotifier, type BatchControl } from './progress.js';
+import { buildToolResponse, isOutputFormat, TOOL_DATA, type ToolResponse } from './output.js';
+import { startHttpServer, type HttpTransportOptions } from './http.js';
+import { ToolPolicy } from './policy.js';
+import { AuditLog, auditEntry, type AuditEntry } from './audit.js';
+import { CACHE_INVALIDATING_TOOLS, QueryCache } from './cache.js';
+import { attachMcpLogging, logger, registerSecret, type McpLogging } from './logger.js';
 
 // Removed Firecrawl API key logic and instance creation
 
 
+export type TransportOptions = { transport: 'stdio' } | ({ transport: 'http' } & HttpTransportOptions);
+
+// Files a call uploaded or attached that the backend may still be embedding
+function embeddingFileIds(entry: AuditEntry, data: unknown): string[] {
+  switch (entry.tool) {
+    case 'add_file_to_collection':
+      return entry.fileIds;
+    case 'embed_texts':
+    case 'embed_files': {
+      // Files seen embedded while the call waited for completion are searchable already
+      const { items } = data as { items: Array<{ fileId: string | null; embeddingStatus: EmbeddingState | null }> };
+      return items.filter(item => item.fileId !== null && !(item.embeddingStatus && isTerminal(item.embeddingStatus))).map(item => item.fileId!);
+    }
+    case 'sync_directory': {
+      const { changes } = data as { changes: Array<{ action: string; fileId?: string }> };
+      return changes.filter(change => change.action !== 'removed' && change.fileId !== undefined).map(change => change.fileId!);
+    }
+    case 'import_collection':
+      return (data as { files: Array<{ newId: string }> }).files.map(file => file.newId);
+    default:
+      return [];
+  }
+}
+
 export class VectraMcpServer {
-  private server: Server;
-  private axiosInstance: AxiosInstance;
+  private backends: BackendRegistry;
+  private queryDefaults: QueryDefaults;
+  private tools: ReturnType<typeof configureTools>;
+  private policy: ToolPolicy;
+  private audit: AuditLog;
+  private queryCache: QueryCache;
+  private listings = new ListingSnapshots();
+  private readonly startedAt = Date.now();
   // Removed firecrawl instance variable
 
-  constructor() {
-    // --- API Key Check ---
-    if (!VECTRA_API_KEY) {
-      console.error("FATAL ERROR: VECTRA_API_KEY environment variable is not set.");
-      process.exit(1); // Exit if API key is missing
+  // Throws a ConfigError when no usable backend is configured
+  constructor(config: ServerConfig) {
+    this.backends = new BackendRegistry(config.backends, config.defaultBackend);
+    this.queryDefaults = config.queryDefaults;
+    this.policy = new ToolPolicy(config.policy, toolsList.map(tool => tool.name));
+    this.audit = new AuditLog(config.audit);
+    this.queryCache = new QueryCache(config.queryCache);
+    // Disabled tools are not advertised
+    this.tools = configureTools(config.queryDefaults, this.backends.hasDefaultCollections)
+      .filter(tool => this.policy.isToolEnabled(tool.name) && (tool.name !== 'query_audit_log' || this.audit.enabled));
+  }
+
+  // Fill in the deployment's defaults before validation: query defaults, and the backend's default collection
+  private applyConfigDefaults(name: string, args: Record<string, unknown>): Record<string, unknown> {
+    const withDefaults = QUERY_TOOLS.includes(name) ? applyQueryDefaults(this.queryDefaults, args) : { ...args };
+    if (DEFAULT_COLLECTION_TOOLS.includes(name) && withDefaults.collectionId === undefined) {
+      const defaultCollectionId = this.backends.defaultCollectionId(typeof args.backend === 'string' ? args.backend : undefined);
+      if (defaultCollectionId) withDefaults.collectionId = defaultCollectionId;
     }
-    // --- End API Key Check ---
+    return withDefaults;
+  }
 
-    this.server = new Server(
+  // Build an MCP server with every handler registered; the HTTP transport creates one per client session
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'vectra-mcp-server',
         version: '0.1.0',
@@ -52,120 +127,313 @@ export class VectraMcpServer {
         capabilities: {
           resources: {},
           tools: {},
+          logging: {},
         },
       }
     );
 
-    this.axiosInstance = axios.create({
-      baseURL: VECTRA_API_URL,
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-Key': VECTRA_API_KEY, // Add API Key header
-      },
-      validateStatus: (status) => status >= 200 && status < 500,
+    // Log records reach this client as notifications, at the level it asks for
+    const logging = attachMcpLogging(server);
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      logging.setLevel(request.params.level);
+      return {};
     });
+    server.onclose = logging.detach;
 
-    this.setupToolHandlers();
+    this.setupToolHandlers(server, logging, crypto.randomUUID());
+    this.setupResourceHandlers(server);
 
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    server.onerror = (error) => logger.error('MCP protocol error', { error });
+    return server;
   }
 
-  private setupToolHandlers() {
+  // Confirmation tokens are only valid in the session they were issued to
+  private setupToolHandlers(server: Server, logging: McpLogging, session: string) {
     // List Tools Handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: toolsList, // Use the imported list
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.tools, // The imported list, with this deployment's defaults
     }));
 
     // Call Tool Handler (Main Logic)
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        // Use the imported handlers and validators
-        switch (name) {
-          case 'create_collection':
-            if (!isValidCreateCollectionArgs(args)) throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for create_collection');
-            return handleApiCall(this.axiosInstance, '/collections', 'post', name, args); // Removed /v1
-
-          case 'list_collections':
-             if (!isValidListCollectionsArgs(args)) throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for list_collections');
-            return handleApiCall(this.axiosInstance, '/collections', 'get', name); // Removed /v1
-
-          // Removed embed_file case
-
-          // Removed embed_text case
-
-          case 'embed_texts':
-            if (!isValidEmbedTextsArgs(args)) {
-              throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for embed_texts');
-            }
-            return handleEmbedTexts(this.axiosInstance, args.items, args.collectionId);
-
-          // Added case for embed_files (batch files/URLs)
-          case 'embed_files':
-            if (!isValidEmbedFilesArgs(args)) {
-              throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for embed_files');
-            }
-            // Call the new batch file handler
-            return handleEmbedFiles(this.axiosInstance, args.sources, args.collectionId, args.metadata);
-
-          case 'add_file_to_collection':
-            if (!isValidAddFileToCollectionArgs(args)) throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for add_file_to_collection');
-            return handleApiCall(this.axiosInstance, `/collections/${args.collectionId}/files`, 'post', name, { fileId: args.fileId }); // Removed /v1
-
-          case 'list_files_in_collection':
-             if (!isValidListFilesInCollectionArgs(args)) throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for list_files_in_collection');
-            return handleApiCall(this.axiosInstance, `/collections/${args.collectionId}/files`, 'get', name); // Removed /v1
-
-          case 'query_collection':
-            if (!isValidQueryCollectionArgs(args)) throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for query_collection');
-            // Construct payload for the /query endpoint
-            const queryPayload = {
-              collectionId: args.collectionId, // Add collectionId to the body
-              queryText: args.queryText,
-              limit: args.limit,
-              searchMode: 'hybrid', // Hardcoded
-              maxDistance: args.maxDistance,
-              includeMetadataFilters: args.includeMetadataFilters,
-              excludeMetadataFilters: args.excludeMetadataFilters,
-              enableGraphSearch: true, // Hardcoded
-              graphDepth: args.graphDepth,
-              graphTopN: args.graphTopN,
-              graphRelationshipTypes: args.graphRelationshipTypes,
-            };
-            // Remove undefined keys before sending
-            Object.keys(queryPayload).forEach(key => queryPayload[key as keyof typeof queryPayload] === undefined && delete queryPayload[key as keyof typeof queryPayload]);
-            // Use the correct /query endpoint
-            return handleApiCall(this.axiosInstance, `/query`, 'post', name, queryPayload);
-
-          case 'delete_file':
-            if (!isValidDeleteFileArgs(args)) throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments for delete_file');
-            return handleApiCall(this.axiosInstance, `/files/${args.fileId}`, 'delete', name); // Removed /v1
-
-          // Removed invalid get_arangodb_node handler
-
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-        }
-      } catch (error) {
-        console.error(`Error calling tool ${name}:`, error);
-        const message = error instanceof McpError ? error.message : (error instanceof Error ? error.message : 'Unknown internal error');
-        // Return error structure expected by MCP CallToolResponse
-         return {
-            content: [{ type: 'text', text: `Error: ${message}` }],
-            isError: true,
-          };
+    // Records logged while a tool runs go to the calling client only
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => logging.run(async () => {
+      const { name } = request.params;
+      const args = this.applyConfigDefaults(name, request.params.arguments ?? {});
+      // Progress notifications (if the client sent a progress token) and cancellation for batch tools
+      const control: BatchControl = {
+        signal: extra.signal,
+        onProgress: createProgressNotifier(server, request.params._meta?.progressToken),
+      };
+
+      const startedAt = Date.now();
+      const response = await this.callTool(name, args, control, session);
+      // Tools that cover every backend (list_backends, query_audit_log, get_diagnostics) are recorded without one
+      const usesBackend = toolsList.some(tool => tool.name === name && 'backend' in tool.inputSchema.properties);
+      const backend = !usesBackend ? undefined : typeof args.backend === 'string' ? args.backend : this.backends.defaultName;
+      const entry = auditEntry({
+        tool: name,
+        args,
+        response,
+        startedAt,
+        client: server.getClientVersion(),
+        backend,
+        endpoint: backend !== undefined ? this.backends.baseURL(backend) : undefined,
+      });
+      this.audit.record(entry);
+      this.invalidateQueryCache(entry);
+      this.trackEmbedding(entry, response);
+      return response;
+    }));
+  }
+
+  // Drop cached query results the call may have made stale; failed batches may still have written some files
+  private invalidateQueryCache(entry: AuditEntry) {
+    if (!CACHE_INVALIDATING_TOOLS.includes(entry.tool) || entry.status === 'dry_run' || entry.backend === undefined) return;
+    // A deleted file leaves every collection it belonged to, which the call does not name
+    if (entry.tool === 'delete_file' || entry.collectionIds.length === 0) {
+      this.queryCache.invalidateBackend(entry.backend);
+      return;
+    }
+    for (const collectionId of entry.collectionIds) this.queryCache.invalidateCollection(entry.backend, collectionId);
+  }
+
+  // The backend embeds uploads after the call returns: keep their collections out of the cache until they are seen embedded
+  private trackEmbedding(entry: AuditEntry, response: ToolResponse) {
+    if (response.isError || entry.status === 'dry_run' || entry.backend === undefined) return;
+    if (entry.tool === 'get_file_status') {
+      const { statuses } = response[TOOL_DATA] as { statuses: FileStatus[] };
+      for (const status of statuses) {
+        if (isTerminal(status.state)) this.queryCache.fileSettled(entry.backend, status.fileId);
       }
-    });
+      return;
+    }
+    const fileIds = embeddingFileIds(entry, response[TOOL_DATA]);
+    for (const collectionId of fileIds.length > 0 ? entry.collectionIds : []) {
+      this.queryCache.trackEmbedding(entry.backend, collectionId, fileIds);
+    }
+  }
+
+  // Run one tool call; failures become error results in the requested output format
+  private async callTool(name: string, args: Record<string, unknown>, control: BatchControl, session: string): Promise<ToolResponse> {
+    try {
+      this.policy.assertToolAllowed(name);
+      this.policy.assertCollectionsAllowed(args);
+      // Tools run against the backend named in their arguments, or the default one
+      const backend = typeof args.backend === 'string' ? args.backend : this.backends.defaultName;
+      const client = this.backends.client(backend);
+      const runQuery: QueryRunner = request => this.queryCache.query(backend, client, request);
+      await this.policy.assertFilesAllowed(client, this.policy.fileIdsOf(name, args));
+
+      // Use the imported handlers and validators
+      // Handlers are awaited so their errors are reported by the catch below
+      switch (name) {
+        case 'create_collection':
+          assertValidCreateCollectionArgs(args);
+          return await handleApiCall(name, () => client.createCollection({ name: args.name, description: args.description }), args.format);
+
+        case 'list_collections':
+          assertValidListCollectionsArgs(args);
+          return await handleApiCall(name, () => this.listings.page(
+            JSON.stringify([backend, 'collections']),
+            async () => this.policy.filterCollections(await client.listCollections()),
+            args,
+            'name'
+          ), args.format);
+
+        // Removed embed_file case
+
+        // Removed embed_text case
+
+        case 'embed_texts':
+          assertValidEmbedTextsArgs(args);
+          return await handleEmbedTexts(client, args.items, args.collectionId, {
+            waitForCompletion: args.waitForCompletion,
+            waitTimeoutSeconds: args.waitTimeoutSeconds,
+            signal: control.signal,
+          }, args.concurrency, control, args.format);
+
+        // Added case for embed_files (batch files/URLs)
+        case 'embed_files':
+          assertValidEmbedFilesArgs(args);
+          // Call the new batch file handler
+          return await handleEmbedFiles(client, args.sources, args.collectionId, args.metadata, {
+            rootDir: args.rootDir,
+            include: args.include,
+            exclude: args.exclude,
+            respectGitignore: args.respectGitignore,
+            includeHidden: args.includeHidden,
+            maxFileSize: args.maxFileSize,
+            maxFiles: args.maxFiles,
+          }, {
+            waitForCompletion: args.waitForCompletion,
+            waitTimeoutSeconds: args.waitTimeoutSeconds,
+            signal: control.signal,
+          }, args.concurrency, control, args.format);
+
+        case 'sync_directory':
+          assertValidSyncDirectoryArgs(args);
+          return await handleSyncDirectory(client, args.directory, args.collectionId, args.metadata, args.manifestPath, {
+            include: args.include,
+            exclude: args.exclude,
+            respectGitignore: args.respectGitignore,
+            includeHidden: args.includeHidden,
+            maxFileSize: args.maxFileSize,
+            maxFiles: args.maxFiles,
+          }, { dryRun: args.dryRun, ...this.policy.confirmation(name, args, session) }, args.format);
+
+        case 'export_collection':
+          assertValidExportCollectionArgs(args);
+          return await handleExportCollection(client, args.collectionId, args.outputPath, args.archiveFormat, args.concurrency, control, args.format);
+
+        case 'import_collection':
+          assertValidImportCollectionArgs(args);
+          return await handleImportCollection(client, args.archivePath, {
+            name: args.name,
+            collectionId: args.collectionId,
+            reportPath: args.reportPath,
+          }, args.concurrency, control, args.format);
+
+        case 'update_collection':
+          assertValidUpdateCollectionArgs(args);
+          return await handleApiCall(name, () => client.updateCollection(args.collectionId, { name: args.name, description: args.description }), args.format);
+
+        case 'delete_collection':
+          assertValidDeleteCollectionArgs(args);
+          return await this.policy.guardDestructive(client, name, args, session, () => handleApiCall(name, () => client.deleteCollection(args.collectionId), args.format));
+
+        case 'get_collection_stats':
+          assertValidGetCollectionStatsArgs(args);
+          return await handleApiCall(name, () => client.getCollectionStats(args.collectionId), args.format);
+
+        case 'add_file_to_collection':
+          assertValidAddFileToCollectionArgs(args);
+          return await handleApiCall(name, () => client.addFileToCollection(args.collectionId, args.fileId), args.format);
+
+        case 'remove_file_from_collection':
+          assertValidRemoveFileFromCollectionArgs(args);
+          return await this.policy.guardDestructive(client, name, args, session, () => handleApiCall(name, () => client.removeFileFromCollection(args.collectionId, args.fileId), args.format));
+
+        case 'list_files_in_collection':
+          assertValidListFilesInCollectionArgs(args);
+          return await handleApiCall(name, () => this.listings.page(
+            JSON.stringify([backend, 'files', args.collectionId]),
+            () => client.listCollectionFiles(args.collectionId),
+            args,
+            'filename'
+          ), args.format);
+
+        case 'query_collection':
+          assertValidQueryCollectionArgs(args);
+          return await handleQueryCollection(client, args, runQuery, args.format);
+
+        case 'query_collections':
+          assertValidQueryCollectionsArgs(args);
+          return await handleQueryCollections(client, args, runQuery, args.format);
+
+        case 'get_file_status':
+          assertValidGetFileStatusArgs(args);
+          return await handleGetFileStatus(client, args.fileIds, {
+            waitForCompletion: args.waitForCompletion,
+            waitTimeoutSeconds: args.waitTimeoutSeconds,
+            signal: control.signal,
+          }, args.format);
+
+        case 'get_graph_node':
+          assertValidGetGraphNodeArgs(args);
+          return await handleApiCall(name, () => client.getGraphNode(args.nodeKey), args.format);
+
+        case 'list_graph_neighbors':
+          assertValidListGraphNeighborsArgs(args);
+          return await handleApiCall(name, () => client.listGraphNeighbors(args.nodeKey, {
+            direction: args.direction,
+            relationshipTypes: args.relationshipTypes,
+            limit: args.limit,
+          }), args.format);
+
+        case 'find_graph_paths':
+          assertValidFindGraphPathsArgs(args);
+          return await handleApiCall(name, () => client.findGraphPaths(args.fromNodeKey, args.toNodeKey, {
+            maxDepth: args.maxDepth,
+            direction: args.direction,
+            relationshipTypes: args.relationshipTypes,
+            limit: args.limit,
+          }), args.format);
+
+        case 'list_backends':
+          assertValidListBackendsArgs(args);
+          return await handleApiCall(name, () => this.backends.checkAll(), args.format);
+
+        case 'query_audit_log':
+          assertValidQueryAuditLogArgs(args);
+          if (!this.audit.enabled) {
+            throw new McpError(ErrorCode.InvalidRequest, 'The audit log is disabled on this server');
+          }
+          return await handleApiCall(name, () => this.audit.query(args), args.format);
+
+        case 'get_diagnostics':
+          assertValidGetDiagnosticsArgs(args);
+          return await handleApiCall(name, async () => ({
+            uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+            queryCache: this.queryCache.stats(),
+          }), args.format);
+
+        case 'delete_file':
+          assertValidDeleteFileArgs(args);
+          return await this.policy.guardDestructive(client, name, args, session, () => handleApiCall(name, () => client.deleteFile(args.fileId), args.format));
+
+
+        default:
+          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      logger.error(`Tool ${name} failed`, { tool: name, error });
+      const message = error instanceof McpError ? error.message : (error instanceof Error ? error.message : 'Unknown internal error');
+      // Return error structure expected by MCP CallToolResponse, in the requested output format
+      const format = isOutputFormat(args.format) ? args.format : 'markdown';
+      return { ...buildToolResponse(`Error: ${message}`, { error: message }, format), isError: true };
+    }
+  }
+
+  private setupResourceHandlers(server: Server) {
+    // List Resources Handler (static resources plus one per collection)
+    server.setRequestHandler(ListResourcesRequestSchema, async () =>
+      listResources(this.backends.client(), id => this.policy.isCollectionAllowed(id))
+    );
+
+    // List Resource Templates Handler
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: resourceTemplatesList,
+    }));
+
+    // Read Resource Handler
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      readResource(
+        this.backends.client(),
+        request.params.uri,
+        id => this.policy.isCollectionAllowed(id),
+        id => this.policy.assertFilesAllowed(this.backends.client(), [id])
+      )
+    );
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('Vectra MCP server running on stdio');
+  async run(options: TransportOptions = { transport: 'stdio' }) {
+    if (options.transport === 'http') {
+      registerSecret(options.authToken);
+      const httpServer = await startHttpServer(() => this.createServer(), options);
+      process.on('SIGINT', () => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => process.exit(0));
+      });
+      logger.info(`Vectra MCP server listening on http://${options.host}:${options.port}/sse`, { transport: 'http', host: options.host, port: options.port, authRequired: Boolean(options.authToken) });
+      return;
+    }
+
+    const server = this.createServer();
+    process.on('SIGINT', async () => {
+      await server.close();
+      process.exit(0);
+    });
+    await server.connect(new StdioServerTransport());
+    logger.info('Vectra MCP server running on stdio', { transport: 'stdio' });
   }
 }
@@ -0,0 +1,179 @@
+// Expands embed_files sources (files, directories, glob patterns) into a list of files to embed
+import fs from 'fs/promises';
+import path from 'path';
+import picomatch from 'picomatch';
+import ignore, { type Ignore } from 'ignore';
+import { DEFAULT_MANIFEST_FILENAME, DEFAULT_MAX_FILE_SIZE_BYTES, DEFAULT_MAX_FILES } from './config.js';
+
+export type SourceResolutionOptions = {
+  rootDir?: string; // Base for relative file_path metadata (defaults to the directory / glob base)
+  include?: string[]; // Glob patterns a file must match (relative to its root)
+  exclude?: string[]; // Glob patterns that exclude a file (relative to its root)
+  respectGitignore?: boolean; // Skip files ignored by .gitignore (default true)
+  includeHidden?: boolean; // Walk into dot-directories and match dotfiles (default false)
+  maxFileSize?: number; // Max size in bytes per file
+  maxFiles?: number; // Max number of files in total
+};
+
+export type ResolvedSource = {
+  path: string; // Path used to read the file
+  relativePath: string; // Path reported as file_path metadata
+};
+
+export type SkippedSource = {
+  path: string;
+  reason: string;
+};
+
+export type SourceResolution = {
+  files: ResolvedSource[];
+  skipped: SkippedSource[];
+  truncated: boolean; // True if maxFiles stopped the expansion early
+};
+
+// Gitignore rules scoped to the directory they were loaded from
+type IgnoreScope = { dir: string; rules: Ignore };
+
+// Directories never worth descending into
+const ALWAYS_SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+// Sync manifests describe the embedded files; they are not content, even when named explicitly
+const ALWAYS_SKIPPED_FILES = new Set([DEFAULT_MANIFEST_FILENAME, `${DEFAULT_MANIFEST_FILENAME}.tmp`]);
+
+const isHidden = (name: string) => name.startsWith('.');
+
+const toPosix = (p: string) => p.split(path.sep).join('/');
+
+// Load the .gitignore of a directory, if any
+async function loadGitignore(dir: string): Promise<IgnoreScope | null> {
+  try {
+    const content = await fs.readFile(path.join(dir, '.gitignore'), 'utf-8');
+    return { dir, rules: ignore().add(content) };
+  } catch {
+    return null;
+  }
+}
+
+// Check a path against every gitignore scope above it
+function isGitignored(absolutePath: string, isDirectory: boolean, scopes: IgnoreScope[]): boolean {
+  for (const scope of scopes) {
+    const rel = toPosix(path.relative(scope.dir, absolutePath));
+    if (rel && !rel.startsWith('..') && scope.rules.ignores(isDirectory ? `${rel}/` : rel)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Load the gitignore scopes from the repository root (nearest .git) down to dir.
+// Outside of a repository only the walked directories' own .gitignore files apply.
+async function loadAncestorGitignores(dir: string): Promise<IgnoreScope[]> {
+  const chain: string[] = [];
+  let current = dir;
+  while (true) {
+    chain.unshift(current);
+    if (await fs.stat(path.join(current, '.git')).then(() => true, () => false)) {
+      const scopes = await Promise.all(chain.map(loadGitignore));
+      return scopes.filter((s): s is IgnoreScope => s !== null);
+    }
+    const parent = path.dirname(current);
+    if (parent === current) return [];
+    current = parent;
+  }
+}
+
+/**
+ * Resolve embed_files sources into concrete files.
+ * Explicit file paths are passed through (missing files are reported by the caller when read),
+ * directories are walked recursively and glob patterns are matched below their static base.
+ * Dotfiles and dot-directories are only found by the walk with includeHidden.
+ */
+export async function resolveSources(sources: string[], options: SourceResolutionOptions = {}): Promise<SourceResolution> {
+  const respectGitignore = options.respectGitignore ?? true;
+  const includeHidden = options.includeHidden ?? false;
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE_BYTES;
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const rootDir = options.rootDir ? path.resolve(options.rootDir) : undefined;
+  const isIncluded = options.include?.length ? picomatch(options.include, { dot: includeHidden }) : () => true;
+  // Exclusions match dotfiles regardless, so a pattern such as **/*.md also excludes .notes.md
+  const isExcluded = options.exclude?.length ? picomatch(options.exclude, { dot: true }) : () => false;
+
+  const files: ResolvedSource[] = [];
+  const skipped: SkippedSource[] = [];
+  const seen = new Set<string>();
+  let truncated = false;
+
+  // Add a file, enforcing the size and count limits; returns false once the limit is reached
+  const addFile = async (absolutePath: string, relativePath: string, size?: number): Promise<boolean> => {
+    if (seen.has(absolutePath) || ALWAYS_SKIPPED_FILES.has(path.basename(absolutePath))) return true;
+    if (files.length >= maxFiles) {
+      truncated = true;
+      return false;
+    }
+    seen.add(absolutePath);
+    if (size !== undefined && size > maxFileSize) {
+      skipped.push({ path: relativePath, reason: `exceeds max file size (${size} > ${maxFileSize} bytes)` });
+      return true;
+    }
+    files.push({ path: absolutePath, relativePath });
+    return true;
+  };
+
+  // Recursively walk a directory; `matches` filters files by their path relative to `base`
+  const walk = async (dir: string, base: string, scopes: IgnoreScope[], matches: (rel: string) => boolean): Promise<boolean> => {
+    const localScope = respectGitignore ? await loadGitignore(dir) : null;
+    const activeScopes = localScope ? [...scopes, localScope] : scopes;
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      skipped.push({ path: dir, reason: `cannot read directory: ${error instanceof Error ? error.message : 'Unknown error'}` });
+      return true;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const absolutePath = path.join(dir, entry.name);
+      if (!includeHidden && isHidden(entry.name)) continue;
+      if (entry.isDirectory()) {
+        if (ALWAYS_SKIPPED_DIRS.has(entry.name)) continue;
+        if (respectGitignore && isGitignored(absolutePath, true, activeScopes)) continue;
+        if (!(await walk(absolutePath, base, activeScopes, matches))) return false;
+      } else if (entry.isFile()) {
+        if (respectGitignore && isGitignored(absolutePath, false, activeScopes)) continue;
+        const relToBase = toPosix(path.relative(base, absolutePath));
+        if (!matches(relToBase) || !isIncluded(relToBase) || isExcluded(relToBase)) continue;
+        const stat = await fs.stat(absolutePath);
+        const relativePath = toPosix(path.relative(rootDir ?? base, absolutePath));
+        if (!(await addFile(absolutePath, relativePath, stat.size))) return false;
+      }
+    }
+    return true;
+  };
+
+  for (const source of sources) {
+    const scan = picomatch.scan(source);
+
+    if (scan.isGlob) {
+      const base = path.resolve(rootDir ?? '', scan.base || '.');
+      const scopes = respectGitignore ? await loadAncestorGitignores(path.dirname(base)) : [];
+      const isMatch = picomatch(scan.glob, { dot: includeHidden });
+      if (!(await walk(base, base, scopes, isMatch))) break;
+      continue;
+    }
+
+    const absolutePath = path.resolve(rootDir ?? '', source);
+    const stat = await fs.stat(absolutePath).catch(() => null);
+
+    if (stat?.isDirectory()) {
+      const scopes = respectGitignore ? await loadAncestorGitignores(path.dirname(absolutePath)) : [];
+      if (!(await walk(absolutePath, absolutePath, scopes, () => true))) break;
+    } else {
+      // Explicit file (or missing path): keep the caller's path as file_path unless a root is given
+      const relativePath = rootDir ? toPosix(path.relative(rootDir, absolutePath)) : source;
+      if (!(await addFile(absolutePath, relativePath, stat?.size))) break;
+    }
+  }
+
+  return { files, skipped, truncated };
+}
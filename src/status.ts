@@ -0,0 +1,156 @@
+// Embedding status tracking for uploaded files
+import { DEFAULT_WAIT_TIMEOUT_SECONDS, STATUS_POLL_INTERVAL_MS } from './config.js';
+import { VectraApiError, type VectraClient, type VectraFile } from './client.js';
+import { buildToolResponse, type OutputFormat } from './output.js';
+
+// Normalized embedding states
+export type EmbeddingState = 'pending' | 'processing' | 'completed' | 'failed' | 'not_found' | 'unknown';
+
+export type FileStatus = {
+  fileId: string;
+  state: EmbeddingState;
+  rawStatus?: string; // Status as reported by the backend
+  filename?: string;
+  error?: string;
+};
+
+export type WaitOptions = {
+  waitForCompletion?: boolean;
+  waitTimeoutSeconds?: number;
+  signal?: AbortSignal; // Stops waiting when the client cancels the request
+};
+
+// Map backend status strings onto the normalized states
+const STATE_ALIASES: Record<string, EmbeddingState> = {
+  pending: 'pending',
+  queued: 'pending',
+  uploaded: 'pending',
+  processing: 'processing',
+  embedding: 'processing',
+  in_progress: 'processing',
+  completed: 'completed',
+  complete: 'completed',
+  embedded: 'completed',
+  ready: 'completed',
+  done: 'completed',
+  success: 'completed',
+  failed: 'failed',
+  error: 'failed',
+};
+
+// Completed, failed or gone: the state will not change any more
+export const isTerminal = (state: EmbeddingState) => state === 'completed' || state === 'failed' || state === 'not_found';
+
+// Wait between polls, returning early once the signal is aborted
+function pollDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+// Fetch the current embedding status of a single file
+export async function fetchFileStatus(client: VectraClient, fileId: string): Promise<FileStatus> {
+  let file: VectraFile;
+  try {
+    file = await client.getFile(fileId);
+  } catch (error) {
+    if (error instanceof VectraApiError && error.status === 404) {
+      return { fileId, state: 'not_found' };
+    }
+    throw error;
+  }
+  const rawStatus = file.embeddingStatus ?? file.embedding_status ?? file.status;
+  const state = typeof rawStatus === 'string' ? STATE_ALIASES[rawStatus.toLowerCase()] ?? 'unknown' : 'unknown';
+  const error = file.embeddingError ?? file.error;
+  return {
+    fileId,
+    state,
+    rawStatus: typeof rawStatus === 'string' ? rawStatus : undefined,
+    filename: file.filename,
+    error: typeof error === 'string' ? error : undefined,
+  };
+}
+
+// Poll until every file is completed, failed or gone, until the timeout expires or until the signal is aborted
+export async function waitForFiles(
+    client: VectraClient,
+    fileIds: string[],
+    timeoutSeconds: number = DEFAULT_WAIT_TIMEOUT_SECONDS,
+    signal?: AbortSignal
+): Promise<{ statuses: FileStatus[]; timedOut: boolean; cancelled: boolean }> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  const statuses = new Map<string, FileStatus>();
+  let pending = [...new Set(fileIds)];
+
+  while (true) {
+    for (const fileId of pending) {
+      try {
+        statuses.set(fileId, await fetchFileStatus(client, fileId));
+      } catch (error) {
+        // A failed status check is retried on the next poll
+        statuses.set(fileId, { fileId, state: 'unknown', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+    pending = pending.filter(id => !isTerminal(statuses.get(id)!.state));
+    if (pending.length === 0 || signal?.aborted || Date.now() + STATUS_POLL_INTERVAL_MS > deadline) break;
+    await pollDelay(STATUS_POLL_INTERVAL_MS, signal);
+    if (signal?.aborted) break;
+  }
+
+  const cancelled = pending.length > 0 && Boolean(signal?.aborted);
+  return { statuses: fileIds.map(id => statuses.get(id)!), timedOut: pending.length > 0 && !cancelled, cancelled };
+}
+
+// Render one status line for summaries
+export function formatFileStatus(status: FileStatus, sourceDesc?: string): string {
+  let line = `- ${status.fileId}`;
+  if (sourceDesc || status.filename) line += ` (${sourceDesc || status.filename})`;
+  line += `: ${status.state}`;
+  if (status.rawStatus && status.rawStatus.toLowerCase() !== status.state) line += ` [${status.rawStatus}]`;
+  if (status.error) line += ` - ${status.error}`;
+  return line;
+}
+
+// Append per-file embedding statuses to a batch summary, waiting for completion if requested
+export async function appendEmbeddingStatuses(
+    client: VectraClient,
+    summary: string,
+    uploaded: Array<{ fileId: string; sourceDesc: string }>,
+    waitOptions?: WaitOptions
+): Promise<{ summary: string; statuses?: Map<string, FileStatus> }> {
+  if (!waitOptions?.waitForCompletion || uploaded.length === 0) return { summary };
+  const { statuses, timedOut, cancelled } = await waitForFiles(client, uploaded.map(u => u.fileId), waitOptions.waitTimeoutSeconds, waitOptions.signal);
+  const completed = statuses.filter(s => s.state === 'completed').length;
+  summary += `\nEmbedding status: ${completed} of ${statuses.length} files completed`;
+  if (timedOut) summary += ` (timed out after ${waitOptions.waitTimeoutSeconds ?? DEFAULT_WAIT_TIMEOUT_SECONDS}s, remaining files are still embedding).`;
+  else summary += cancelled ? ' (stopped waiting when the client cancelled, remaining files are still embedding).' : '.';
+  summary += '\n' + statuses.map((s, i) => formatFileStatus(s, uploaded[i].sourceDesc)).join('\n');
+  return { summary, statuses: new Map(statuses.map(s => [s.fileId, s])) };
+}
+
+// Handler for the get_file_status tool
+export async function handleGetFileStatus(client: VectraClient, fileIds: string[], waitOptions?: WaitOptions, format: OutputFormat = 'markdown') {
+  let statuses: FileStatus[];
+  let timedOut = false;
+  let cancelled = false;
+  if (waitOptions?.waitForCompletion) {
+    ({ statuses, timedOut, cancelled } = await waitForFiles(client, fileIds, waitOptions.waitTimeoutSeconds, waitOptions.signal));
+  } else {
+    statuses = await Promise.all(fileIds.map(id => fetchFileStatus(client, id)));
+  }
+
+  let summary = `File embedding status:\n` + statuses.map(s => formatFileStatus(s)).join('\n');
+  if (timedOut) {
+    summary += `\nTimed out after ${waitOptions?.waitTimeoutSeconds ?? DEFAULT_WAIT_TIMEOUT_SECONDS}s before all files finished embedding.`;
+  }
+  if (cancelled) {
+    summary += '\nStopped waiting when the client cancelled the request, before all files finished embedding.';
+  }
+  return buildToolResponse(summary, { statuses, timedOut, cancelled }, format);
+}
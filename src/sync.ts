@@ -0,0 +1,237 @@
+// Incremental directory sync: uploads only new or changed files, tracked in a local manifest
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { resolveSources, type SourceResolutionOptions } from './sources.js';
+import { uploadFileContent, toUploadSource } from './handlers.js';
+import { VectraApiError, type VectraClient } from './client.js';
+import { extractText } from './extractors.js';
+import { buildToolResponse, type OutputFormat } from './output.js';
+import { logger } from './logger.js';
+import { CONFIRMATION_TTL_MS } from './policy.js';
+import { DEFAULT_MANIFEST_FILENAME } from './config.js';
+
+const log = logger.child('sync');
+
+type ManifestEntry = {
+  hash: string; // sha256 of the file content
+  fileId: string; // Vectra file ID of the uploaded content
+  syncedAt: string;
+};
+
+type SyncManifest = {
+  version: 1;
+  collectionId?: string;
+  files: Record<string, ManifestEntry>; // Keyed by path relative to the synced directory
+  pendingDeletes?: string[]; // Vectra file IDs of replaced uploads whose deletion failed; retried on the next sync
+};
+
+// How a sync may delete the Vectra files of paths that disappeared from the directory (see the tool policy)
+export type SyncRemovalControl = {
+  dryRun?: boolean; // Only report what would change: nothing is uploaded, deleted or written to the manifest
+  confirmed: boolean; // Unconfirmed removals are held back and reported with a confirmation token
+  issueToken: () => string;
+};
+
+// Load a manifest, returning an empty one if it does not exist yet
+async function loadManifest(manifestPath: string): Promise<SyncManifest> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(manifestPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { version: 1, files: {} };
+    throw new McpError(ErrorCode.InternalError, `Failed to read sync manifest "${manifestPath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  try {
+    const manifest = JSON.parse(raw);
+    const pendingDeletes = manifest?.pendingDeletes;
+    if (manifest?.version !== 1 || typeof manifest.files !== 'object' || manifest.files === null ||
+        (pendingDeletes !== undefined && !(Array.isArray(pendingDeletes) && pendingDeletes.every(id => typeof id === 'string')))) {
+      throw new Error('unsupported manifest format');
+    }
+    return manifest;
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid sync manifest "${manifestPath}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Write the manifest atomically so an interrupted sync never leaves a truncated file
+async function saveManifest(manifestPath: string, manifest: SyncManifest) {
+  const tmpPath = `${manifestPath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(manifest, null, 2), 'utf-8');
+  await fs.rename(tmpPath, manifestPath);
+}
+
+// Delete a Vectra file; a file that is already gone counts as deleted
+async function deleteVectraFile(client: VectraClient, fileId: string) {
+  try {
+    await client.deleteFile(fileId);
+  } catch (error) {
+    if (!(error instanceof VectraApiError && error.status === 404)) throw error;
+  }
+}
+
+// Handler for the sync_directory tool
+export async function handleSyncDirectory(
+    client: VectraClient,
+    directory: string,
+    collectionId?: string,
+    baseMetadata?: Record<string, string>,
+    manifestPathArg?: string,
+    sourceOptions?: Omit<SourceResolutionOptions, 'rootDir'>,
+    removals: SyncRemovalControl = { confirmed: true, issueToken: () => '' },
+    format: OutputFormat = 'markdown'
+) {
+  const dryRun = removals.dryRun ?? false;
+  const root = path.resolve(directory);
+  const rootStat = await fs.stat(root).catch(() => null);
+  if (!rootStat?.isDirectory()) {
+    throw new McpError(ErrorCode.InvalidParams, `Directory not found: ${directory}`);
+  }
+
+  const manifestPath = path.resolve(manifestPathArg || path.join(root, DEFAULT_MANIFEST_FILENAME));
+  const manifest = await loadManifest(manifestPath);
+  if (Object.keys(manifest.files).length > 0 && manifest.collectionId !== collectionId) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Sync manifest "${manifestPath}" belongs to collection ${manifest.collectionId ?? '(none)'}; use a different manifestPath to sync into ${collectionId ?? '(none)'}`
+    );
+  }
+  manifest.collectionId = collectionId;
+
+  // Never embed the manifest itself
+  const manifestRel = path.relative(root, manifestPath).split(path.sep).join('/');
+  const exclude = [...(sourceOptions?.exclude ?? [])];
+  if (!manifestRel.startsWith('..')) exclude.push(manifestRel, `${manifestRel}.tmp`);
+
+  const { files, skipped, truncated } = await resolveSources([root], { ...sourceOptions, exclude, rootDir: root });
+
+  const counts = { added: 0, updated: 0, removed: 0, unchanged: 0, failed: 0 };
+  const failures: Array<{ path: string; error: string }> = [];
+  // fileId is the uploaded or removed file; a dry run has not uploaded anything yet
+  const changes: Array<{ path: string; action: 'added' | 'updated' | 'removed'; fileId?: string; previousFileId?: string }> = [];
+  const seenPaths = new Set<string>();
+  // Skipped files (too large) and directories (unreadable) still exist, so their manifest entries are kept
+  const skippedPaths = skipped.map(entry => path.relative(root, path.resolve(root, entry.path)).split(path.sep).join('/'));
+  const wasSkipped = (relativePath: string) => skippedPaths.some(skippedPath => relativePath === skippedPath || relativePath.startsWith(`${skippedPath}/`));
+
+  log.info(`Starting sync of ${files.length} files`, { directory: root, collectionId, files: files.length });
+
+  // Replaced uploads still waiting to be deleted, including those a previous sync failed to delete
+  const pendingDeletes: string[] = dryRun ? [...manifest.pendingDeletes ?? []] : [];
+  const deleteReplaced = async (fileId: string) => {
+    try {
+      await deleteVectraFile(client, fileId);
+    } catch (error) {
+      log.warning(`Failed to delete replaced upload ${fileId}; it is retried on the next sync`, { fileId, error: error instanceof Error ? error.message : 'Unknown error' });
+      pendingDeletes.push(fileId);
+    }
+  };
+  if (!dryRun) {
+    for (const fileId of manifest.pendingDeletes ?? []) await deleteReplaced(fileId);
+  }
+
+  for (const file of files) {
+    seenPaths.add(file.relativePath);
+    const previous = manifest.files[file.relativePath];
+    try {
+      const buffer = await fs.readFile(file.path);
+      const hash = crypto.createHash('sha256').update(buffer).digest('hex');
+      if (previous?.hash === hash) {
+        counts.unchanged++;
+        continue;
+      }
+      if (dryRun) {
+        counts[previous ? 'updated' : 'added']++;
+        changes.push({ path: file.relativePath, action: previous ? 'updated' : 'added', previousFileId: previous?.fileId });
+        continue;
+      }
+
+      const extracted = await extractText(file.path, buffer);
+      const { fileId } = await uploadFileContent(
+        client,
+        extracted.text,
+        toUploadSource(file.path, extracted.metadata),
+        collectionId,
+        { ...extracted.metadata, ...baseMetadata, file_path: file.relativePath }
+      );
+      if (!fileId) {
+        throw new Error('Upload succeeded but no file ID was returned');
+      }
+
+      // Record the new upload before removing the old one; an old upload that fails to delete stays in pendingDeletes
+      manifest.files[file.relativePath] = { hash, fileId, syncedAt: new Date().toISOString() };
+      if (previous) {
+        await deleteReplaced(previous.fileId);
+        counts.updated++;
+        changes.push({ path: file.relativePath, action: 'updated', fileId, previousFileId: previous.fileId });
+      } else {
+        counts.added++;
+        changes.push({ path: file.relativePath, action: 'added', fileId });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      log.warning(`Failed to sync ${file.relativePath}`, { path: file.relativePath, error: message });
+      failures.push({ path: file.relativePath, error: message });
+      counts.failed++;
+    }
+  }
+
+  // Remove files that disappeared, unless the listing was cut short by maxFiles. Files that failed to sync
+  // (e.g. read errors) were seen, so they are kept too
+  const disappeared = truncated ? [] : Object.entries(manifest.files)
+    .filter(([relativePath]) => !seenPaths.has(relativePath) && !wasSkipped(relativePath));
+  // Deleting them needs confirmation; uploads and updates go ahead meanwhile
+  const held = disappeared.length > 0 && (dryRun || !removals.confirmed);
+  const confirmationToken = held ? removals.issueToken() : undefined;
+  // Held removals are still listed in the manifest, so the next sync finds them again
+  const pendingRemovals = held ? disappeared.map(([relativePath, entry]) => ({ path: relativePath, fileId: entry.fileId })) : [];
+  if (dryRun) {
+    counts.removed = pendingRemovals.length;
+    changes.push(...pendingRemovals.map(removal => ({ ...removal, action: 'removed' as const })));
+  }
+  for (const [relativePath, entry] of held ? [] : disappeared) {
+    try {
+      await deleteVectraFile(client, entry.fileId);
+      delete manifest.files[relativePath];
+      counts.removed++;
+      changes.push({ path: relativePath, action: 'removed', fileId: entry.fileId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      log.warning(`Failed to remove ${relativePath}`, { path: relativePath, fileId: entry.fileId, error: message });
+      failures.push({ path: relativePath, error: message });
+      counts.failed++;
+    }
+  }
+
+  if (!dryRun) {
+    manifest.pendingDeletes = pendingDeletes.length > 0 ? pendingDeletes : undefined;
+    await saveManifest(manifestPath, manifest);
+  }
+
+  let summary = dryRun
+    ? `Dry run of the sync of ${root}: ${counts.added} would be added, ${counts.updated} updated, ${counts.removed} removed, ${counts.unchanged} unchanged. Nothing has been uploaded or deleted.`
+    : `Sync of ${root} completed. ${counts.added} added, ${counts.updated} updated, ${counts.removed} removed, ${counts.unchanged} unchanged, ${counts.failed} failed.`;
+  summary += `\nManifest: ${manifestPath}`;
+  if (held) {
+    const action = dryRun
+      ? 'To sync, including the removals, call sync_directory again with the same arguments but without dryRun, and with'
+      : `${pendingRemovals.length} files disappeared from the directory but were kept in Vectra: ${pendingRemovals.map(removal => removal.path).join(', ')}. To delete them, call sync_directory again with the same arguments and`;
+    summary += `\n${action} confirmationToken "${confirmationToken}" (valid for ${CONFIRMATION_TTL_MS / 60000} minutes).`;
+  }
+  if (pendingDeletes.length > 0) {
+    summary += `\n${pendingDeletes.length} replaced uploads could not be deleted from Vectra and will be retried on the next sync: ${pendingDeletes.join(', ')}`;
+  }
+  if (failures.length > 0) {
+    summary += `\nFailed files: ${failures.map(f => `${f.path} (${f.error})`).join(', ')}`;
+  }
+  if (skipped.length > 0) {
+    summary += `\nSkipped files: ${skipped.map(s => `${s.path} (${s.reason})`).join(', ')}`;
+  }
+  if (truncated) {
+    summary += `\nStopped after ${files.length} files: the max file count was reached, so removed files were not detected. Raise maxFiles to sync the whole directory.`;
+  }
+
+  return buildToolResponse(summary, { directory: root, manifestPath, dryRun, counts, changes, pendingRemovals: dryRun ? [] : pendingRemovals, confirmationToken, pendingDeletes, failures, skipped, truncated }, format);
+}
@@ -1,84 +1,238 @@
 // Defines the tools provided by the Vectra MCP Server
 
 // Using JSON schema format for MCP tools
+
+// Output format property shared by every tool
+const OutputFormatProperty = {
+  format: {
+    type: 'string',
+    enum: ['markdown', 'json', 'both'],
+    description: 'Output format: human-readable markdown, a machine-readable JSON payload, or both (markdown first, JSON second). Default markdown',
+    default: 'markdown',
+  },
+} as const;
+
+// Backend profile selection shared by every tool
+const BackendProperty = {
+  backend: { type: 'string', description: 'Name of the configured Vectra backend to use (default: the default backend; see list_backends)' },
+} as const;
+
+// Confirmation flow of the destructive tools (see the tool policy)
+const DestructiveCallProperties = {
+  dryRun: { type: 'boolean', description: 'Only report what would be deleted, and return a confirmation token' },
+  confirmationToken: { type: 'string', description: 'Token from a dry run of this exact call, required to actually delete when confirmation is enabled' },
+} as const;
+
+// Exact-match metadata filters, shared by the query and listing tools
+const IncludeMetadataFiltersProperty = {
+  type: 'array',
+  description: 'Filter results to include only those matching these metadata fields/values',
+  items: {
+    type: 'object',
+    properties: {
+      field: { type: 'string', description: 'Metadata field name' },
+      value: { type: 'string', description: 'Exact value to match' },
+    },
+    required: ['field', 'value'],
+  },
+} as const;
+
+// Pagination, sorting and filtering options of the listing tools
+function listingProperties<F extends string>(sortFields: readonly F[], searchDescription: string) {
+  return {
+    cursor: { type: 'string', description: 'Cursor of the page to fetch (the nextCursor of the previous page)' },
+    offset: { type: 'integer', description: 'Number of matching items to skip (alternative to cursor)', minimum: 0 },
+    limit: { type: 'integer', description: 'Maximum number of items per page (default 100)', minimum: 1, maximum: 1000, default: 100 },
+    sortBy: { type: 'string', enum: sortFields, description: 'Field to sort by (default: API order)' },
+    sortOrder: { type: 'string', enum: ['asc', 'desc'], description: 'Sort direction (default asc)', default: 'asc' },
+    search: { type: 'string', description: searchDescription },
+    includeMetadataFilters: IncludeMetadataFiltersProperty,
+  } as const;
+}
+
 export const CreateCollectionArgsSchema = {
   type: 'object',
   properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
     name: { type: 'string', description: 'Name of the collection' },
     description: { type: 'string', description: 'Optional description' },
   },
   required: ['name'],
 } as const;
 
-export const ListCollectionsArgsSchema = { type: 'object', properties: {} } as const; // No args needed
+export const ListCollectionsArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    ...listingProperties(['name', 'createdAt', 'updatedAt'], 'Case-insensitive substring of the collection name'),
+  },
+  additionalProperties: false,
+} as const;
 
 // Removed EmbedFileArgsSchema as the tool is removed
 
+export const UpdateCollectionArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    collectionId: { type: 'string', description: 'ID of the collection to update' },
+    name: { type: 'string', description: 'New name of the collection', minLength: 1 },
+    description: { type: 'string', description: 'New description of the collection' },
+  },
+  required: ['collectionId'],
+  anyOf: [{ required: ['name'] }, { required: ['description'] }], // At least one change
+} as const;
+
+export const DeleteCollectionArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    ...DestructiveCallProperties,
+    collectionId: { type: 'string', description: 'ID of the collection to delete' },
+  },
+  required: ['collectionId'],
+} as const;
+
+export const GetCollectionStatsArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    collectionId: { type: 'string', description: 'ID of the collection' },
+  },
+  required: ['collectionId'],
+} as const;
+
 export const AddFileToCollectionArgsSchema = {
   type: 'object',
   properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
     collectionId: { type: 'string', description: 'ID of the target collection' },
     fileId: { type: 'string', description: 'ID of the file (obtained after embedding)' },
   },
   required: ['collectionId', 'fileId'],
 } as const;
 
+export const RemoveFileFromCollectionArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    ...DestructiveCallProperties,
+    collectionId: { type: 'string', description: 'ID of the collection' },
+    fileId: { type: 'string', description: 'ID of the file to detach from the collection' },
+  },
+  required: ['collectionId', 'fileId'],
+} as const;
+
 export const ListFilesInCollectionArgsSchema = {
   type: 'object',
   properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
     collectionId: { type: 'string', description: 'ID of the collection' },
+    ...listingProperties(['filename', 'createdAt', 'updatedAt', 'size'], 'Case-insensitive substring of the filename'),
   },
   required: ['collectionId'],
 } as const;
 
+// Query options shared by the single-collection and federated query tools
+export const QueryOptionProperties = {
+  queryText: { type: 'string', description: 'The query text to search for' },
+  limit: { type: 'integer', description: 'Maximum number of results (default 10)', minimum: 1, default: 10 },
+  searchMode: {
+    type: 'string',
+    enum: ['vector', 'keyword', 'hybrid'],
+    description: 'Search mode: pure vector similarity, pure keyword matching, or hybrid (both, fused). Default hybrid',
+    default: 'hybrid',
+  },
+  vectorWeight: { type: 'number', description: 'Hybrid mode only: relative weight of vector similarity (0-1). If only one weight is given, the other is its complement', minimum: 0, maximum: 1 },
+  keywordWeight: { type: 'number', description: 'Hybrid mode only: relative weight of keyword matching (0-1)', minimum: 0, maximum: 1 },
+  maxDistance: { type: 'number', description: 'Max vector distance (0-2, lower is more similar)', minimum: 0, maximum: 2 },
+  enableGraphSearch: { type: 'boolean', description: 'Expand results through the knowledge graph; disable for lower latency (default true)', default: true },
+  graphDepth: { type: 'integer', description: 'Depth for graph traversal (default 1)', minimum: 1, default: 1 },
+  graphTopN: { type: 'integer', description: 'Max number of neighbors to fetch per node during graph traversal (default 5)', minimum: 1, default: 5 },
+  graphRelationshipTypes: {
+    type: 'array',
+    description: 'Optional list of relationship types to filter graph traversal (e.g., ["cites", "mentions"])',
+    items: { type: 'string' }
+  },
+  graphTraversalDirection: {
+    type: 'string',
+    enum: ['OUTBOUND', 'INBOUND', 'ANY'],
+    description: 'Direction of graph traversal from each result node (backend default if omitted)',
+  },
+  includeMetadataFilters: IncludeMetadataFiltersProperty,
+  excludeMetadataFilters: {
+    type: 'array',
+    description: 'Filter results to exclude those matching these metadata fields/patterns',
+    items: {
+      type: 'object',
+      properties: {
+        field: { type: 'string', description: 'Metadata field name' },
+        value: { type: 'string', description: 'Exact value to exclude' },
+        pattern: { type: 'string', description: 'LIKE pattern to exclude (e.g., %value%)' },
+      },
+      required: ['field'],
+      anyOf: [{ required: ['value'] }, { required: ['pattern'] }], // Either value or pattern must be provided by caller
+    },
+  },
+  // Post-processing of the returned hits (extra candidates are fetched when any of these is set)
+  mergeAdjacentChunks: { type: 'boolean', description: 'Merge hits on consecutive chunks of the same file into one passage (default false)', default: false },
+  maxHitsPerFile: { type: 'integer', description: 'Keep at most this many hits per file, collapsing the rest (default unlimited)', minimum: 1 },
+  diversify: { type: 'boolean', description: 'Re-rank with maximal marginal relevance to avoid near-duplicate hits (default false)', default: false },
+  diversityLambda: { type: 'number', description: 'MMR trade-off when diversify is true: 1 = relevance only, 0 = diversity only (default 0.7)', minimum: 0, maximum: 1, default: 0.7 },
+  maxTokens: { type: 'integer', description: 'Token budget: pack the highest-ranked hits into about this many tokens, dropping verbose sections first, and end with a numbered citation list', minimum: 100 },
+} as const;
+
 export const QueryCollectionArgsSchema = {
   type: 'object',
   properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
     collectionId: { type: 'string', description: 'ID of the collection to query within' },
-    queryText: { type: 'string', description: 'The query text to search for' },
-    limit: { type: 'number', description: 'Maximum number of results (default 10)', default: 10 },
-    // searchMode is hardcoded to 'hybrid' in the server logic, removed from schema
-    maxDistance: { type: 'number', description: 'Max vector distance (0-2, lower is more similar)' },
-    // enableGraphSearch is hardcoded to 'true' in the server logic, removed from schema
-    graphDepth: { type: 'number', description: 'Depth for graph traversal (default 1)', default: 1 },
-    graphTopN: { type: 'number', description: 'Max number of neighbors to fetch per node during graph traversal (default 5)', default: 5 }, // Added missing param
-    graphRelationshipTypes: {
-      type: 'array',
-      description: 'Optional list of relationship types to filter graph traversal (e.g., ["cites", "mentions"])',
-      items: { type: 'string' }
-    },
-    includeMetadataFilters: {
+    ...QueryOptionProperties,
+  },
+  required: ['collectionId', 'queryText'], // Keep only essential required fields
+} as const;
+
+// Schema for querying several collections at once
+export const QueryCollectionsArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    collectionIds: {
       type: 'array',
-      description: 'Filter results to include only those matching these metadata fields/values',
-      items: {
-        type: 'object',
-        properties: {
-          field: { type: 'string', description: 'Metadata field name' },
-          value: { type: 'string', description: 'Exact value to match' },
-        },
-        required: ['field', 'value'],
-      },
+      description: 'IDs of the collections to query in parallel',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1
     },
-    excludeMetadataFilters: {
-      type: 'array',
-      description: 'Filter results to exclude those matching these metadata fields/patterns',
-      items: {
-        type: 'object',
-        properties: {
-          field: { type: 'string', description: 'Metadata field name' },
-          value: { type: 'string', description: 'Exact value to exclude' },
-          pattern: { type: 'string', description: 'LIKE pattern to exclude (e.g., %value%)' },
-        },
-        required: ['field'], // Either value or pattern must be provided by caller
-      },
+    ...QueryOptionProperties,
+    limit: { type: 'integer', description: 'Maximum number of merged results across all collections (default 10)', minimum: 1, default: 10 },
+    perCollectionLimit: { type: 'integer', description: 'Maximum number of results fetched from each collection before merging (defaults to limit)', minimum: 1 },
+    fusion: {
+      type: 'string',
+      enum: ['rrf', 'score'],
+      description: 'How to merge hits: reciprocal rank fusion (rrf, robust to differing score scales) or per-collection min-max score normalization (score). Default rrf',
+      default: 'rrf',
     },
+    rrfK: { type: 'integer', description: 'RRF rank constant; larger values flatten the rank contribution (default 60)', minimum: 1, default: 60 },
   },
-  required: ['collectionId', 'queryText'], // Keep only essential required fields
+  required: ['collectionIds', 'queryText'],
 } as const;
 
 export const DeleteFileArgsSchema = {
   type: 'object',
   properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    ...DestructiveCallProperties,
     fileId: { type: 'string', description: 'ID of the file to delete' },
   },
   required: ['fileId'],
@@ -90,6 +244,8 @@ export const DeleteFileArgsSchema = {
 export const EmbedTextsArgsSchema = {
   type: 'object',
   properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
     collectionId: { type: 'string', description: 'Optional ID of the collection to add all texts to' },
     items: {
       type: 'array',
@@ -106,7 +262,10 @@ export const EmbedTextsArgsSchema = {
         },
         required: ['text']
       }
-    }
+    },
+    waitForCompletion: { type: 'boolean', description: 'Wait until every uploaded file is embedded (or failed) before returning, and report per-file status (default false)', default: false },
+    waitTimeoutSeconds: { type: 'number', description: 'Maximum time to wait when waitForCompletion is true (default 120)', exclusiveMinimum: 0 },
+    concurrency: { type: 'integer', description: 'Maximum number of uploads in flight at once (default 4)', minimum: 1 },
   },
   required: ['items'],
 } as const;
@@ -115,14 +274,36 @@ export const EmbedTextsArgsSchema = {
 export const EmbedFilesArgsSchema = {
   type: 'object',
   properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
     sources: {
       type: 'array',
-      description: 'An array of local file paths to embed',
+      description: 'An array of local file paths, directories (embedded recursively) or glob patterns (e.g., "docs/**/*.md") to embed',
       items: {
         type: 'string',
-        description: 'A local file path'
-      }
+        description: 'A local file path, directory or glob pattern',
+        minLength: 1
+      },
+      minItems: 1
+    },
+    rootDir: { type: 'string', minLength: 1, description: 'Optional root directory; globs are resolved against it and each file_path metadata is relative to it (defaults to the directory or glob base)' },
+    include: {
+      type: 'array',
+      description: 'Optional glob patterns a file must match to be embedded (relative to its directory or glob base)',
+      items: { type: 'string' }
+    },
+    exclude: {
+      type: 'array',
+      description: 'Optional glob patterns of files to skip (e.g., ["**/*.test.ts"])',
+      items: { type: 'string' }
     },
+    respectGitignore: { type: 'boolean', description: 'Skip files ignored by .gitignore when expanding directories and globs (default true)', default: true },
+    includeHidden: { type: 'boolean', description: 'Include dotfiles and dot-directories when expanding directories and globs (default false)', default: false },
+    maxFileSize: { type: 'integer', description: 'Skip files larger than this many bytes (default 5242880)', minimum: 1 },
+    maxFiles: { type: 'integer', description: 'Maximum number of files to embed in total (default 500)', minimum: 1 },
+    waitForCompletion: { type: 'boolean', description: 'Wait until every uploaded file is embedded (or failed) before returning, and report per-file status (default false)', default: false },
+    waitTimeoutSeconds: { type: 'number', description: 'Maximum time to wait when waitForCompletion is true (default 120)', exclusiveMinimum: 0 },
+    concurrency: { type: 'integer', description: 'Maximum number of uploads in flight at once (default 4)', minimum: 1 },
     collectionId: { type: 'string', description: 'Optional ID of the collection to add all embedded files to' },
     metadata: { // Adding top-level metadata applicable to all sources unless overridden
       type: 'object',
@@ -133,17 +314,228 @@ export const EmbedFilesArgsSchema = {
   required: ['sources'],
 } as const;
 
-// Removed GetArangoDbNodeArgsSchema as the tool is removed
+// Schema for checking the embedding status of uploaded files
+export const GetFileStatusArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    fileIds: {
+      type: 'array',
+      description: 'IDs of the files to check',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1
+    },
+    waitForCompletion: { type: 'boolean', description: 'Poll until every file is embedded (or failed) before returning (default false)', default: false },
+    waitTimeoutSeconds: { type: 'number', description: 'Maximum time to wait when waitForCompletion is true (default 120)', exclusiveMinimum: 0 },
+  },
+  required: ['fileIds'],
+} as const;
+
+// Schema for incrementally syncing a local directory
+export const SyncDirectoryArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    directory: { type: 'string', description: 'Local directory to sync', minLength: 1 },
+    collectionId: { type: 'string', description: 'Optional ID of the collection to add uploaded files to' },
+    manifestPath: { type: 'string', minLength: 1, description: 'Optional path of the sync manifest (default: .vectra-sync.json in the directory)' },
+    metadata: {
+      type: 'object',
+      description: 'Optional key-value pairs for metadata to apply to all uploaded files',
+      additionalProperties: { type: 'string' }
+    },
+    include: {
+      type: 'array',
+      description: 'Optional glob patterns a file must match to be synced (relative to the directory)',
+      items: { type: 'string' }
+    },
+    exclude: {
+      type: 'array',
+      description: 'Optional glob patterns of files to skip',
+      items: { type: 'string' }
+    },
+    respectGitignore: { type: 'boolean', description: 'Skip files ignored by .gitignore (default true)', default: true },
+    includeHidden: { type: 'boolean', description: 'Sync dotfiles and dot-directories (default false)', default: false },
+    maxFileSize: { type: 'integer', description: 'Skip files larger than this many bytes (default 5242880)', minimum: 1 },
+    maxFiles: { type: 'integer', description: 'Maximum number of files to sync (default 500)', minimum: 1 },
+    dryRun: { type: 'boolean', description: 'Only report what would be added, updated and removed, and return a confirmation token for the removals' },
+    confirmationToken: { type: 'string', description: 'Token from an earlier call with the same arguments, required to delete files that disappeared when confirmation is enabled' },
+  },
+  required: ['directory'],
+} as const;
+
+// Schema for exporting a collection to a local archive
+export const ExportCollectionArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    collectionId: { type: 'string', description: 'ID of the collection to export' },
+    outputPath: { type: 'string', minLength: 1, description: 'Local path of the archive to write (.jsonl, or .tar.gz / .tgz for a tarball)' },
+    archiveFormat: { type: 'string', enum: ['jsonl', 'tar'], description: 'Archive format (default: from the outputPath extension)' },
+    concurrency: { type: 'integer', description: 'Maximum number of file downloads in flight at once (default 4)', minimum: 1 },
+  },
+  required: ['collectionId', 'outputPath'],
+} as const;
+
+// Schema for re-creating a collection from an archive
+export const ImportCollectionArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    archivePath: { type: 'string', minLength: 1, description: 'Local path of an archive written by export_collection' },
+    name: { type: 'string', minLength: 1, description: 'Name of the new collection (default: the archived collection name)' },
+    collectionId: { type: 'string', description: 'Import into this existing collection instead of creating one' },
+    reportPath: { type: 'string', minLength: 1, description: 'Optional path to write the old-to-new ID remapping report to (JSON)' },
+    concurrency: { type: 'integer', description: 'Maximum number of uploads in flight at once (default 4)', minimum: 1 },
+  },
+  required: ['archivePath'],
+} as const;
+
+// Graph traversal properties shared by the graph tools
+const GraphTraversalProperties = {
+  direction: {
+    type: 'string',
+    enum: ['OUTBOUND', 'INBOUND', 'ANY'],
+    description: 'Follow outgoing edges, incoming edges, or both (default ANY)',
+    default: 'ANY',
+  },
+  relationshipTypes: {
+    type: 'array',
+    description: 'Optional relationship types to follow (e.g., ["cites", "mentions"]); all types if omitted',
+    items: { type: 'string', minLength: 1 }
+  },
+} as const;
+
+// Schema for listing the configured backends (takes no backend, since it covers all of them)
+export const ListBackendsArgsSchema = { type: 'object', properties: { ...OutputFormatProperty }, additionalProperties: false } as const;
+
+// Schema for searching the audit log (covers every backend, so it takes none)
+export const QueryAuditLogArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    tool: { type: 'string', minLength: 1, description: 'Only calls of this tool' },
+    collectionId: { type: 'string', minLength: 1, description: 'Only calls that named, created or changed this collection' },
+    fileId: { type: 'string', minLength: 1, description: 'Only calls that named, uploaded or deleted this file' },
+    status: { type: 'string', enum: ['success', 'error', 'dry_run'], description: 'Only calls with this outcome' },
+    since: { type: 'string', minLength: 1, description: 'Only calls made at or after this ISO 8601 time (e.g. 2024-05-01 or 2024-05-01T12:00:00Z)' },
+    limit: { type: 'integer', description: 'Maximum number of entries, most recent first (default 50)', minimum: 1, maximum: 1000, default: 50 },
+  },
+  additionalProperties: false,
+} as const;
+
+// Schema for the server diagnostics (server-wide, so it takes no backend)
+export const GetDiagnosticsArgsSchema = { type: 'object', properties: { ...OutputFormatProperty }, additionalProperties: false } as const;
+
+// Schema for fetching a single knowledge graph node
+export const GetGraphNodeArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    nodeKey: { type: 'string', description: 'Key of the graph node (the _key of an arangodb_node in query results)', minLength: 1 },
+  },
+  required: ['nodeKey'],
+} as const;
+
+// Schema for listing the neighbors of a knowledge graph node
+export const ListGraphNeighborsArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    ...GraphTraversalProperties,
+    nodeKey: { type: 'string', description: 'Key of the graph node whose neighbors to list', minLength: 1 },
+    limit: { type: 'integer', description: 'Maximum number of neighbors (default 25)', minimum: 1, default: 25 },
+  },
+  required: ['nodeKey'],
+} as const;
+
+// Schema for finding paths between two knowledge graph nodes
+export const FindGraphPathsArgsSchema = {
+  type: 'object',
+  properties: {
+    ...OutputFormatProperty,
+    ...BackendProperty,
+    ...GraphTraversalProperties,
+    fromNodeKey: { type: 'string', description: 'Key of the start node', minLength: 1 },
+    toNodeKey: { type: 'string', description: 'Key of the end node', minLength: 1 },
+    maxDepth: { type: 'integer', description: 'Maximum path length in edges (default 3, at most 6)', minimum: 1, maximum: 6, default: 3 },
+    limit: { type: 'integer', description: 'Maximum number of paths, shortest first (default 5)', minimum: 1, default: 5 },
+  },
+  required: ['fromNodeKey', 'toNodeKey'],
+} as const;
 
 
 // List of all tools provided by the server
 export const toolsList = [
   { name: 'create_collection', description: 'Create a new Vectra collection', inputSchema: CreateCollectionArgsSchema },
-  { name: 'list_collections', description: 'List existing Vectra collections', inputSchema: ListCollectionsArgsSchema },
+  { name: 'list_collections', description: 'List existing Vectra collections, one page at a time, with optional sorting and filtering', inputSchema: ListCollectionsArgsSchema },
+  { name: 'update_collection', description: 'Rename a Vectra collection or change its description', inputSchema: UpdateCollectionArgsSchema },
+  { name: 'delete_collection', description: 'Delete a Vectra collection (its files are not deleted)', inputSchema: DeleteCollectionArgsSchema },
+  { name: 'get_collection_stats', description: 'Show the size of a Vectra collection: file count, chunk count, total bytes and last update', inputSchema: GetCollectionStatsArgsSchema },
   { name: 'add_file_to_collection', description: 'Add an embedded file to a Vectra collection', inputSchema: AddFileToCollectionArgsSchema },
-  { name: 'list_files_in_collection', description: 'List files within a specific Vectra collection', inputSchema: ListFilesInCollectionArgsSchema },
+  { name: 'remove_file_from_collection', description: 'Detach a file from a Vectra collection without deleting the file', inputSchema: RemoveFileFromCollectionArgsSchema },
+  { name: 'list_files_in_collection', description: 'List files within a specific Vectra collection, one page at a time, with optional filename search, metadata filters and sorting', inputSchema: ListFilesInCollectionArgsSchema },
   { name: 'embed_texts', description: 'Embeds multiple text items in batch into Vectra', inputSchema: EmbedTextsArgsSchema },
-  { name: 'embed_files', description: 'Reads multiple local files and embeds their content', inputSchema: EmbedFilesArgsSchema },
-  { name: 'query_collection', description: 'Query the knowledge base within a specific Vectra collection (uses hybrid search with graph traversal)', inputSchema: QueryCollectionArgsSchema }, // Updated description
+  { name: 'embed_files', description: 'Reads local files, directories or glob patterns and embeds their content', inputSchema: EmbedFilesArgsSchema },
+  { name: 'sync_directory', description: 'Incrementally sync a local directory into Vectra, uploading only new or changed files and deleting removed ones', inputSchema: SyncDirectoryArgsSchema },
+  { name: 'export_collection', description: 'Export a collection\'s files, content and metadata to a local JSONL or tarball archive for backup or migration', inputSchema: ExportCollectionArgsSchema },
+  { name: 'import_collection', description: 'Re-create a collection from an export_collection archive and report the old-to-new ID mapping', inputSchema: ImportCollectionArgsSchema },
+  { name: 'query_collection', description: 'Query the knowledge base within a specific Vectra collection (vector, keyword or hybrid search, with optional graph expansion)', inputSchema: QueryCollectionArgsSchema },
+  { name: 'query_collections', description: 'Query several Vectra collections in parallel and merge the hits with rank fusion, tagging each hit with its source collection', inputSchema: QueryCollectionsArgsSchema },
+  { name: 'get_file_status', description: 'Check whether uploaded files have finished embedding and are queryable', inputSchema: GetFileStatusArgsSchema },
+  { name: 'get_graph_node', description: 'Fetch a knowledge graph node (e.g. an arangodb_node from a query result) by its key', inputSchema: GetGraphNodeArgsSchema },
+  { name: 'list_graph_neighbors', description: 'List the neighbors of a knowledge graph node, filtered by relationship type and direction', inputSchema: ListGraphNeighborsArgsSchema },
+  { name: 'find_graph_paths', description: 'Find paths between two knowledge graph nodes, up to a maximum depth', inputSchema: FindGraphPathsArgsSchema },
+  { name: 'list_backends', description: 'List the configured Vectra backends, marking the default, and check whether each is reachable', inputSchema: ListBackendsArgsSchema },
+  { name: 'query_audit_log', description: 'Search the audit log of tool calls by tool, collection, file, outcome or time, most recent first', inputSchema: QueryAuditLogArgsSchema },
+  { name: 'get_diagnostics', description: 'Show server diagnostics: uptime and query cache size, hits, misses and invalidations', inputSchema: GetDiagnosticsArgsSchema },
   { name: 'delete_file', description: 'Delete a file and its embeddings from Vectra', inputSchema: DeleteFileArgsSchema },
 ];
+
+// Tools whose collectionId falls back to the backend's default collection. Destructive tools, sync_directory
+// included, always need an explicit ID
+export const DEFAULT_COLLECTION_TOOLS = [
+  'query_collection',
+  'list_files_in_collection',
+  'add_file_to_collection',
+  'get_collection_stats',
+  'embed_texts',
+  'embed_files',
+];
+
+// Tools that take the query options, and so the configured query defaults
+export const QUERY_TOOLS = ['query_collection', 'query_collections'];
+
+// The parts of a tool's input schema that a deployment's defaults change
+type ToolInputSchema = {
+  type: 'object';
+  properties: Record<string, { description?: string; default?: unknown }>;
+  required?: readonly string[];
+};
+
+// The tool list as advertised by a deployment: configured query defaults, and collectionId optional where a default collection applies
+export function configureTools(queryDefaults: Record<string, unknown>, hasDefaultCollection: boolean) {
+  return toolsList.map(tool => {
+    let schema: ToolInputSchema = tool.inputSchema;
+    if (QUERY_TOOLS.includes(tool.name) && Object.keys(queryDefaults).length > 0) {
+      const properties = { ...schema.properties };
+      for (const [key, value] of Object.entries(queryDefaults)) properties[key] = { ...properties[key], default: value };
+      schema = { ...schema, properties };
+    }
+    if (hasDefaultCollection && DEFAULT_COLLECTION_TOOLS.includes(tool.name)) {
+      const collectionId = schema.properties.collectionId;
+      schema = {
+        ...schema,
+        required: schema.required?.filter(key => key !== 'collectionId'),
+        properties: { ...schema.properties, collectionId: { ...collectionId, description: `${collectionId.description} (default: the backend's default collection, if configured)` } },
+      };
+    }
+    return { ...tool, inputSchema: schema };
+  });
+}
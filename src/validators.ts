@@ -1,83 +1,117 @@
-// Type guards for validating MCP tool arguments
-
-export function isValidCreateCollectionArgs(args: any): args is { name: string; description?: string } {
-  return typeof args === 'object' && args !== null && typeof args.name === 'string' && (args.description === undefined || typeof args.description === 'string');
+// Argument validation for MCP tools, driven by the JSON schemas in tools.ts
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { OutputFormat } from './output.js';
+import { validateAgainstSchema, type JsonSchema } from './schema.js';
+import type { GraphTraversalDirection, MetadataFilter, SearchMode } from './client.js';
+import type { ListOptions } from './listing.js';
+import type { ArchiveFormat } from './archive.js';
+import type { AuditQuery } from './audit.js';
+import {
+  AddFileToCollectionArgsSchema,
+  CreateCollectionArgsSchema,
+  DeleteCollectionArgsSchema,
+  DeleteFileArgsSchema,
+  EmbedFilesArgsSchema,
+  EmbedTextsArgsSchema,
+  ExportCollectionArgsSchema,
+  FindGraphPathsArgsSchema,
+  GetCollectionStatsArgsSchema,
+  GetFileStatusArgsSchema,
+  GetGraphNodeArgsSchema,
+  ImportCollectionArgsSchema,
+  ListBackendsArgsSchema,
+  QueryAuditLogArgsSchema,
+  GetDiagnosticsArgsSchema,
+  ListCollectionsArgsSchema,
+  ListFilesInCollectionArgsSchema,
+  ListGraphNeighborsArgsSchema,
+  QueryCollectionArgsSchema,
+  QueryCollectionsArgsSchema,
+  RemoveFileFromCollectionArgsSchema,
+  SyncDirectoryArgsSchema,
+  UpdateCollectionArgsSchema,
+} from './tools.js';
+
+// Asserts that tool arguments match their schema; schema defaults are filled in on success
+type ArgsAssertion<T> = (args: unknown) => asserts args is T;
+
+function schemaAssertion<T>(toolName: string, schema: JsonSchema): ArgsAssertion<T> {
+  return (args) => {
+    const errors = validateAgainstSchema(schema, args);
+    if (errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${toolName}: ${errors.join('; ')}`);
+    }
+  };
 }
 
-export function isValidListCollectionsArgs(args: any): args is {} {
-  return typeof args === 'object' && args !== null && Object.keys(args).length === 0;
-}
+// --- Argument Types (fields with a schema default are always present after validation) ---
 
-// Removed isValidEmbedFileArgs
+type FormatArgs = { format: OutputFormat; backend?: string };
 
-export function isValidAddFileToCollectionArgs(args: any): args is { collectionId: string; fileId: string } {
-  return typeof args === 'object' && args !== null && typeof args.collectionId === 'string' && typeof args.fileId === 'string';
-}
+type WaitArgs = { waitForCompletion: boolean; waitTimeoutSeconds?: number };
 
-export function isValidListFilesInCollectionArgs(args: any): args is { collectionId: string } {
-  return typeof args === 'object' && args !== null && typeof args.collectionId === 'string';
-}
+type SourceFilterArgs = {
+  include?: string[];
+  exclude?: string[];
+  respectGitignore: boolean;
+  includeHidden: boolean;
+  maxFileSize?: number;
+  maxFiles?: number;
+};
+
+// Confirmation flow of the destructive tools
+type ConfirmationArgs = { dryRun?: boolean; confirmationToken?: string };
+
+export type CreateCollectionArgs = FormatArgs & { name: string; description?: string };
 
-// Define the type explicitly for clarity, matching the schema
-type QueryCollectionArgs = {
-  collectionId: string;
+export type UpdateCollectionArgs = FormatArgs & { collectionId: string; name?: string; description?: string };
+
+export type CollectionIdArgs = FormatArgs & { collectionId: string };
+
+export type AddFileToCollectionArgs = FormatArgs & { collectionId: string; fileId: string };
+
+export type RemoveFileFromCollectionArgs = AddFileToCollectionArgs & ConfirmationArgs;
+
+export type DeleteCollectionArgs = CollectionIdArgs & ConfirmationArgs;
+
+export type ListCollectionsArgs = FormatArgs & ListOptions;
+
+export type ListFilesInCollectionArgs = FormatArgs & ListOptions & { collectionId: string };
+
+// Query options shared by query_collection and query_collections
+export type QueryOptionsArgs = {
   queryText: string;
-  limit?: number;
-  searchMode?: 'vector' | 'keyword' | 'hybrid';
-  // enableHeuristicReranking?: boolean; // REMOVED Property
+  limit: number;
+  searchMode: SearchMode;
+  vectorWeight?: number;
+  keywordWeight?: number;
   maxDistance?: number;
-  includeMetadataFilters?: Array<{ field: string; value: string }>;
+  includeMetadataFilters?: MetadataFilter[];
   excludeMetadataFilters?: Array<{ field: string; value?: string; pattern?: string }>;
-  // --- Add Graph Search Params to Type ---
-  enableGraphSearch?: boolean;
-  graphDepth?: number;
-  graphTopN?: number;
+  enableGraphSearch: boolean;
+  graphDepth: number;
+  graphTopN: number;
   graphRelationshipTypes?: string[];
-  // --- End Graph Search Params ---
+  graphTraversalDirection?: GraphTraversalDirection;
+  mergeAdjacentChunks: boolean;
+  maxHitsPerFile?: number;
+  diversify: boolean;
+  diversityLambda: number;
+  maxTokens?: number;
 };
 
-// Re-declare the function with the explicit type for better type safety
-export function isValidQueryCollectionArgs(args: any): args is QueryCollectionArgs {
-   if (typeof args !== 'object' || args === null) return false;
-   if (typeof args.collectionId !== 'string' || typeof args.queryText !== 'string') return false;
-   if (args.limit !== undefined && typeof args.limit !== 'number') return false;
-   if (args.searchMode !== undefined && !['vector', 'keyword', 'hybrid'].includes(args.searchMode)) return false;
-   // if (args.enableHeuristicReranking !== undefined && typeof args.enableHeuristicReranking !== 'boolean') return false; // REMOVED Check
-   if (args.maxDistance !== undefined && typeof args.maxDistance !== 'number') return false;
-
-   // Validate includeMetadataFilters (if present)
-   if (args.includeMetadataFilters !== undefined) {
-     if (!Array.isArray(args.includeMetadataFilters)) return false;
-     for (const filter of args.includeMetadataFilters) {
-       if (typeof filter !== 'object' || filter === null || typeof filter.field !== 'string' || typeof filter.value !== 'string') return false;
-     }
-   }
-
-   // Validate excludeMetadataFilters (if present)
-   if (args.excludeMetadataFilters !== undefined) {
-     if (!Array.isArray(args.excludeMetadataFilters)) return false;
-     for (const filter of args.excludeMetadataFilters) {
-       if (typeof filter !== 'object' || filter === null || typeof filter.field !== 'string') return false;
-       if (filter.value === undefined && filter.pattern === undefined) return false; // Must have value or pattern
-       if (filter.value !== undefined && typeof filter.value !== 'string') return false;
-       if (filter.pattern !== undefined && typeof filter.pattern !== 'string') return false;
-     }
-   }
-
-   return true; // All checks passed
-}
-
-// Validator for the get_arangodb_node tool
-export function isValidGetArangoDbNodeArgs(args: any): args is { nodeKey: string } {
-  return typeof args === 'object' && args !== null && typeof args.nodeKey === 'string' && args.nodeKey.trim() !== '';
-}
+export type QueryCollectionArgs = FormatArgs & QueryOptionsArgs & { collectionId: string };
 
+export type QueryCollectionsArgs = FormatArgs & QueryOptionsArgs & {
+  collectionIds: string[];
+  perCollectionLimit?: number;
+  fusion: 'rrf' | 'score';
+  rrfK: number;
+};
 
-export function isValidDeleteFileArgs(args: any): args is { fileId: string } {
-  return typeof args === 'object' && args !== null && typeof args.fileId === 'string';
-}
+export type DeleteFileArgs = FormatArgs & ConfirmationArgs & { fileId: string };
 
-// Removed isValidEmbedTextArgs
+export type GetFileStatusArgs = FormatArgs & WaitArgs & { fileIds: string[] };
 
 // Type definition for a single item in the embed_texts batch
 type EmbedTextItem = {
@@ -85,76 +119,59 @@ type EmbedTextItem = {
   metadata?: Record<string, string>;
 };
 
-// Validator for the batch embed_texts tool
-export function isValidEmbedTextsArgs(args: any): args is { items: EmbedTextItem[]; collectionId?: string } {
-  if (typeof args !== 'object' || args === null) {
-    return false;
-  }
-  if (args.collectionId !== undefined && typeof args.collectionId !== 'string') {
-    return false;
-  }
-  if (!Array.isArray(args.items)) {
-    return false;
-  }
-  // Check each item in the array
-  for (const item of args.items) {
-    if (typeof item !== 'object' || item === null || typeof item.text !== 'string') {
-      return false; // Each item must be an object with a text string
-    }
-    // Validate metadata within each item if present
-    if (item.metadata !== undefined) {
-      if (typeof item.metadata !== 'object' || item.metadata === null || Array.isArray(item.metadata)) {
-        return false;
-      }
-      for (const key in item.metadata) {
-        if (Object.prototype.hasOwnProperty.call(item.metadata, key)) {
-          if (typeof item.metadata[key] !== 'string') {
-            return false; // Ensure all metadata values are strings
-          }
-        }
-      }
-    }
-  }
-  return true; // All checks passed
-}
-
+export type EmbedTextsArgs = FormatArgs & WaitArgs & { items: EmbedTextItem[]; collectionId?: string; concurrency?: number };
 
-// Type definition for embed_files arguments
-type EmbedFilesArgs = {
+export type EmbedFilesArgs = FormatArgs & WaitArgs & SourceFilterArgs & {
   sources: string[];
   collectionId?: string;
   metadata?: Record<string, string>;
+  rootDir?: string;
+  concurrency?: number;
 };
 
-// Validator for the batch embed_files tool
-export function isValidEmbedFilesArgs(args: any): args is EmbedFilesArgs {
-  if (typeof args !== 'object' || args === null) {
-    return false;
-  }
-  if (args.collectionId !== undefined && typeof args.collectionId !== 'string') {
-    return false;
-  }
-  // Validate sources array
-  if (!Array.isArray(args.sources) || args.sources.length === 0) { // Must have at least one source
-    return false;
-  }
-  for (const source of args.sources) {
-    if (typeof source !== 'string' || source.trim() === '') {
-      return false; // Each source must be a non-empty string
-    }
-  }
-  // Validate optional top-level metadata
-  if (args.metadata !== undefined) {
-    if (typeof args.metadata !== 'object' || args.metadata === null || Array.isArray(args.metadata)) {
-      return false;
-    }
-    for (const key in args.metadata) {
-      if (Object.prototype.hasOwnProperty.call(args.metadata, key)) {
-        if (typeof args.metadata[key] !== 'string') {
-          return false; // Ensure all metadata values are strings
-        }
-      }
-    }
-  }
-  return true; // All checks passed
-}
+export type SyncDirectoryArgs = FormatArgs & SourceFilterArgs & ConfirmationArgs & {
+  directory: string;
+  collectionId?: string;
+  manifestPath?: string;
+  metadata?: Record<string, string>;
+};
+
+export type ExportCollectionArgs = FormatArgs & { collectionId: string; outputPath: string; archiveFormat?: ArchiveFormat; concurrency?: number };
+
+export type ImportCollectionArgs = FormatArgs & { archivePath: string; name?: string; collectionId?: string; reportPath?: string; concurrency?: number };
+
+type GraphTraversalArgs = { direction: GraphTraversalDirection; relationshipTypes?: string[] };
+
+export type GetGraphNodeArgs = FormatArgs & { nodeKey: string };
+
+export type ListGraphNeighborsArgs = FormatArgs & GraphTraversalArgs & { nodeKey: string; limit: number };
+
+export type FindGraphPathsArgs = FormatArgs & GraphTraversalArgs & { fromNodeKey: string; toNodeKey: string; maxDepth: number; limit: number };
+
+export type QueryAuditLogArgs = FormatArgs & AuditQuery;
+
+// --- Validators ---
+
+export const assertValidCreateCollectionArgs: ArgsAssertion<CreateCollectionArgs> = schemaAssertion('create_collection', CreateCollectionArgsSchema);
+export const assertValidListCollectionsArgs: ArgsAssertion<ListCollectionsArgs> = schemaAssertion('list_collections', ListCollectionsArgsSchema);
+export const assertValidUpdateCollectionArgs: ArgsAssertion<UpdateCollectionArgs> = schemaAssertion('update_collection', UpdateCollectionArgsSchema);
+export const assertValidDeleteCollectionArgs: ArgsAssertion<DeleteCollectionArgs> = schemaAssertion('delete_collection', DeleteCollectionArgsSchema);
+export const assertValidGetCollectionStatsArgs: ArgsAssertion<CollectionIdArgs> = schemaAssertion('get_collection_stats', GetCollectionStatsArgsSchema);
+export const assertValidAddFileToCollectionArgs: ArgsAssertion<AddFileToCollectionArgs> = schemaAssertion('add_file_to_collection', AddFileToCollectionArgsSchema);
+export const assertValidRemoveFileFromCollectionArgs: ArgsAssertion<RemoveFileFromCollectionArgs> = schemaAssertion('remove_file_from_collection', RemoveFileFromCollectionArgsSchema);
+export const assertValidListFilesInCollectionArgs: ArgsAssertion<ListFilesInCollectionArgs> = schemaAssertion('list_files_in_collection', ListFilesInCollectionArgsSchema);
+export const assertValidQueryCollectionArgs: ArgsAssertion<QueryCollectionArgs> = schemaAssertion('query_collection', QueryCollectionArgsSchema);
+export const assertValidQueryCollectionsArgs: ArgsAssertion<QueryCollectionsArgs> = schemaAssertion('query_collections', QueryCollectionsArgsSchema);
+export const assertValidListBackendsArgs: ArgsAssertion<{ format: OutputFormat }> = schemaAssertion('list_backends', ListBackendsArgsSchema);
+export const assertValidQueryAuditLogArgs: ArgsAssertion<QueryAuditLogArgs> = schemaAssertion('query_audit_log', QueryAuditLogArgsSchema);
+export const assertValidGetDiagnosticsArgs: ArgsAssertion<{ format: OutputFormat }> = schemaAssertion('get_diagnostics', GetDiagnosticsArgsSchema);
+export const assertValidDeleteFileArgs: ArgsAssertion<DeleteFileArgs> = schemaAssertion('delete_file', DeleteFileArgsSchema);
+export const assertValidGetFileStatusArgs: ArgsAssertion<GetFileStatusArgs> = schemaAssertion('get_file_status', GetFileStatusArgsSchema);
+export const assertValidEmbedTextsArgs: ArgsAssertion<EmbedTextsArgs> = schemaAssertion('embed_texts', EmbedTextsArgsSchema);
+export const assertValidEmbedFilesArgs: ArgsAssertion<EmbedFilesArgs> = schemaAssertion('embed_files', EmbedFilesArgsSchema);
+export const assertValidSyncDirectoryArgs: ArgsAssertion<SyncDirectoryArgs> = schemaAssertion('sync_directory', SyncDirectoryArgsSchema);
+export const assertValidExportCollectionArgs: ArgsAssertion<ExportCollectionArgs> = schemaAssertion('export_collection', ExportCollectionArgsSchema);
+export const assertValidImportCollectionArgs: ArgsAssertion<ImportCollectionArgs> = schemaAssertion('import_collection', ImportCollectionArgsSchema);
+export const assertValidGetGraphNodeArgs: ArgsAssertion<GetGraphNodeArgs> = schemaAssertion('get_graph_node', GetGraphNodeArgsSchema);
+export const assertValidListGraphNeighborsArgs: ArgsAssertion<ListGraphNeighborsArgs> = schemaAssertion('list_graph_neighbors', ListGraphNeighborsArgsSchema);
+export const assertValidFindGraphPathsArgs: ArgsAssertion<FindGraphPathsArgs> = schemaAssertion('find_graph_paths', FindGraphPathsArgsSchema);
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createTar, handleExportCollection, handleImportCollection, readTar } from '../src/archive.js';
+import { TOOL_DATA } from '../src/output.js';
+import type { VectraClient } from '../src/client.js';
+
+describe('tar encoding', () => {
+  it('round-trips long names and sizes that are not a multiple of the block size', () => {
+    const longName = `files/${'nested-directory-'.repeat(4)}/${'a-rather-long-file-name-'.repeat(3)}résumé.txt`;
+    expect(Buffer.byteLength(longName)).toBeGreaterThan(100);
+    const entries = [
+      { name: 'collection.jsonl', content: Buffer.from('{"type":"collection"}\n') },
+      { name: longName, content: Buffer.alloc(1000, 'x') },
+      { name: 'files/empty.txt', content: Buffer.alloc(0) },
+      { name: 'files/exact.txt', content: Buffer.alloc(512, 'y') },
+    ];
+
+    const tar = createTar(entries);
+    expect(tar.length % 512).toBe(0);
+    expect(readTar(tar)).toEqual(new Map(entries.map(entry => [entry.name, entry.content])));
+  });
+
+  it('rejects a name that cannot be split into the ustar prefix and name fields', () => {
+    expect(() => createTar([{ name: 'x'.repeat(101), content: Buffer.alloc(0) }])).toThrow('path too long');
+  });
+});
+
+describe('collection archives', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vectra-archive-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const content = `${'Line of exported text. '.repeat(40)}\nÜnïcödé ending`;
+
+  // One collection with two files on export; records the collections and uploads of an import
+  function fakeClient() {
+    const uploads: Array<{ content: string; fileName: string; metadata?: Record<string, string>; collectionId?: string }> = [];
+    const created: Array<{ name: string; description?: string }> = [];
+    const client = {
+      listCollections: async () => [{ id: 'c1', name: 'Handbook', description: 'Team handbook' }],
+      listCollectionFiles: async () => [{ id: 'f1', filename: 'guide.md' }, { id: 'f2', filename: 'guide.md' }],
+      getFile: async (fileId: string) => ({ id: fileId, content: fileId === 'f1' ? content : 'short', metadata: { team: 'support', pages: 3 } }),
+      createCollection: async (input: { name: string; description?: string }) => {
+        created.push(input);
+        return { id: 'c-new', name: input.name };
+      },
+      uploadFile: async (input: { content: string; fileName: string; metadata?: Record<string, string>; collectionId?: string }) => {
+        uploads.push(input);
+        return { id: `new-${uploads.length}` };
+      },
+    };
+    return { client: client as unknown as VectraClient, uploads, created };
+  }
+
+  for (const fileName of ['handbook.jsonl', 'handbook.tar.gz', 'handbook.tar']) {
+    it(`round-trips a collection through ${fileName}`, async () => {
+      const { client, uploads, created } = fakeClient();
+      const archivePath = path.join(dir, fileName);
+
+      await handleExportCollection(client, 'c1', archivePath);
+      const response = await handleImportCollection(client, archivePath, {}, 1);
+
+      expect(created).toEqual([{ name: 'Handbook', description: 'Team handbook' }]);
+      expect(uploads).toEqual([
+        { content, fileName: 'guide.md', metadata: { team: 'support', pages: '3' }, collectionId: 'c-new' },
+        { content: 'short', fileName: 'guide.md', metadata: { team: 'support', pages: '3' }, collectionId: 'c-new' },
+      ]);
+      expect((response[TOOL_DATA] as { files: unknown[] }).files).toEqual([
+        { oldId: 'f1', newId: 'new-1', filename: 'guide.md' },
+        { oldId: 'f2', newId: 'new-2', filename: 'guide.md' },
+      ]);
+    });
+  }
+
+  it('rejects archives with malformed records', async () => {
+    const { client, uploads } = fakeClient();
+    const archivePath = path.join(dir, 'broken.jsonl');
+    const collection = { type: 'collection', version: 1, exportedAt: '2026-01-01T00:00:00.000Z', collection: { id: 'c1', name: 'Handbook' } };
+
+    await fs.writeFile(archivePath, `${JSON.stringify(collection)}\n${JSON.stringify({ type: 'file', id: 'f1', filename: 'a.md' })}\n`);
+    await expect(handleImportCollection(client, archivePath, {})).rejects.toThrow('file record 1 is missing its id, filename or content');
+
+    await fs.writeFile(archivePath, `${JSON.stringify({ ...collection, collection: { name: 42 } })}\n`);
+    await expect(handleImportCollection(client, archivePath, {})).rejects.toThrow('the first record must describe the collection');
+
+    await fs.writeFile(archivePath, `${JSON.stringify(collection)}\n{not json\n`);
+    await expect(handleImportCollection(client, archivePath, {})).rejects.toThrow('line 2 is not valid JSON');
+    expect(uploads).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AuditLog, auditEntry, type AuditEntry } from '../src/audit.js';
+import { buildToolResponse } from '../src/output.js';
+
+const entry = (tool: string, fields: Partial<AuditEntry> = {}): AuditEntry => ({
+  time: new Date().toISOString(),
+  tool,
+  status: 'success',
+  durationMs: 1,
+  args: {},
+  collectionIds: [],
+  fileIds: [],
+  ...fields,
+});
+
+describe('auditEntry', () => {
+  it('masks secrets, cuts long strings and collects the IDs of the call', () => {
+    const recorded = auditEntry({
+      tool: 'add_file_to_collection',
+      args: { collectionId: 'c1', fileId: 'f1', apiKey: 'sk-secret-value', text: 'x'.repeat(500) },
+      response: buildToolResponse('Added', { message: 'ok' }, 'json'),
+      startedAt: Date.now(),
+    });
+
+    expect(recorded.status).toBe('success');
+    expect(recorded.collectionIds).toEqual(['c1']);
+    expect(recorded.fileIds).toEqual(['f1']);
+    expect(recorded.args).toMatchObject({ apiKey: '[REDACTED]', text: `${'x'.repeat(200)}... [500 chars]` });
+  });
+
+  it('takes the IDs created by mutating tools from their result', () => {
+    const recorded = auditEntry({
+      tool: 'create_collection',
+      args: { name: 'Docs' },
+      response: buildToolResponse('Created', { collection: { id: 'c9', name: 'Docs' } }, 'json'),
+      startedAt: Date.now(),
+    });
+    expect(recorded.collectionIds).toEqual(['c9']);
+  });
+
+  it('records dry runs and errors', () => {
+    const dryRun = auditEntry({ tool: 'delete_file', args: {}, response: buildToolResponse('Dry run', { dryRun: true }, 'json'), startedAt: Date.now() });
+    expect(dryRun.status).toBe('dry_run');
+
+    const failed = auditEntry({ tool: 'delete_file', args: {}, response: { ...buildToolResponse('Failed', { error: 'Not found' }, 'json'), isError: true }, startedAt: Date.now() });
+    expect([failed.status, failed.error]).toEqual(['error', 'Not found']);
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vectra-audit-'));
+    logPath = path.join(dir, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('rotates the log by size and drops files beyond maxFiles', async () => {
+    const line = `${JSON.stringify(entry('tool-0'))}\n`;
+    const audit = new AuditLog({ enabled: true, path: logPath, maxBytes: Buffer.byteLength(line) * 2, maxFiles: 2 });
+    for (let i = 0; i < 7; i++) audit.record(entry(`tool-${i}`));
+
+    // Two entries per file: tool-6 in the log, tool-4/5 in .1, tool-2/3 in .2; tool-0/1 were dropped
+    const entries = await audit.query({ limit: 100 });
+    expect(entries.map(e => e.tool)).toEqual(['tool-6', 'tool-5', 'tool-4', 'tool-3', 'tool-2']);
+    expect((await fs.readdir(path.dirname(logPath))).sort()).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+  });
+
+  it('filters entries, newest first, and skips torn lines', async () => {
+    const audit = new AuditLog({ enabled: true, path: logPath, maxBytes: 1024 * 1024, maxFiles: 1 });
+    audit.record(entry('query_collection', { time: '2026-01-01T00:00:00.000Z', collectionIds: ['c1'] }));
+    audit.record(entry('delete_file', { time: '2026-02-01T00:00:00.000Z', fileIds: ['f1'], status: 'dry_run' }));
+    audit.record(entry('query_collection', { time: '2026-03-01T00:00:00.000Z', collectionIds: ['c2'] }));
+    await audit.query({ limit: 1 });
+    await fs.appendFile(logPath, '{"time": "2026-04');
+
+    const months = async (query: Record<string, unknown>) => (await audit.query({ limit: 100, ...query })).map(e => e.time.slice(0, 7));
+    expect(await months({})).toEqual(['2026-03', '2026-02', '2026-01']);
+    expect(await months({ tool: 'query_collection', collectionId: 'c1' })).toEqual(['2026-01']);
+    expect(await months({ fileId: 'f1', status: 'dry_run' })).toEqual(['2026-02']);
+    expect(await months({ since: '2026-02-01' })).toEqual(['2026-03', '2026-02']);
+    expect(await months({ limit: 1 })).toEqual(['2026-03']);
+    await expect(audit.query({ limit: 1, since: 'yesterday' })).rejects.toThrow('Invalid since');
+  });
+
+  it('writes nothing when disabled', async () => {
+    const audit = new AuditLog({ enabled: false, path: logPath, maxBytes: 1024, maxFiles: 1 });
+    audit.record(entry('delete_file'));
+    expect(await audit.query({ limit: 10 })).toEqual([]);
+    await expect(fs.access(logPath)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryCache, type QueryCacheConfig } from '../src/cache.js';
+import type { QueryRequest, QueryResult, VectraClient } from '../src/client.js';
+
+const config = (overrides: Partial<QueryCacheConfig> = {}): QueryCacheConfig => ({ enabled: true, maxEntries: 10, maxBytes: 1024 * 1024, ttlSeconds: 60, ...overrides });
+
+// Counts backend queries; each result names the collection and query it came from
+function fakeClient() {
+  const calls: QueryRequest[] = [];
+  const client = {
+    query: async (request: QueryRequest): Promise<QueryResult[]> => {
+      calls.push(request);
+      return [{ vector_id: `${request.collectionId}:${request.queryText}`, metadata: { chunk_text: 'text' } }];
+    },
+  };
+  return { client: client as unknown as VectraClient, calls };
+}
+
+const request = (collectionId: string, queryText: string, extra: Partial<QueryRequest> = {}): QueryRequest => ({ collectionId, queryText, limit: 5, ...extra });
+
+describe('QueryCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves repeated queries from the cache as copies', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config());
+
+    const first = await cache.query('default', client, request('c1', 'refunds'));
+    first[0].vector_id = 'changed by the caller';
+    const second = await cache.query('default', client, request('c1', 'refunds'));
+
+    expect(calls).toHaveLength(1);
+    expect(second[0].vector_id).toBe('c1:refunds');
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5, entries: 1 });
+  });
+
+  it('treats equivalent requests as the same query, per backend', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config());
+
+    await cache.query('default', client, { ...request('c1', 'refunds'), searchMode: 'hybrid', maxDistance: undefined });
+    await cache.query('default', client, { searchMode: 'hybrid', ...request('c1', '  refunds ') });
+    await cache.query('staging', client, { ...request('c1', 'refunds'), searchMode: 'hybrid' });
+
+    expect(calls).toHaveLength(2);
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers();
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config({ ttlSeconds: 30 }));
+
+    await cache.query('default', client, request('c1', 'refunds'));
+    vi.advanceTimersByTime(30_000);
+    await cache.query('default', client, request('c1', 'refunds'));
+
+    expect(calls).toHaveLength(2);
+    expect(cache.stats()).toMatchObject({ expirations: 1, entries: 1 });
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config({ maxEntries: 2 }));
+
+    await cache.query('default', client, request('c1', 'a'));
+    await cache.query('default', client, request('c1', 'b'));
+    await cache.query('default', client, request('c1', 'a')); // Now b is the least recently used
+    await cache.query('default', client, request('c1', 'c'));
+    await cache.query('default', client, request('c1', 'a'));
+    await cache.query('default', client, request('c1', 'b'));
+
+    expect(calls.map(call => call.queryText)).toEqual(['a', 'b', 'c', 'b']);
+    expect(cache.stats().evictions).toBe(2);
+  });
+
+  it('does not cache results larger than the byte limit', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config({ maxBytes: 10 }));
+
+    await cache.query('default', client, request('c1', 'refunds'));
+    await cache.query('default', client, request('c1', 'refunds'));
+    expect(calls).toHaveLength(2);
+    expect(cache.stats().bytes).toBe(0);
+  });
+
+  it('invalidates one collection, or a whole backend', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config());
+    const queryAll = async () => {
+      await cache.query('default', client, request('c1', 'refunds'));
+      await cache.query('default', client, request('c2', 'refunds'));
+      await cache.query('staging', client, request('c1', 'refunds'));
+    };
+
+    await queryAll();
+    cache.invalidateCollection('default', 'c1');
+    await queryAll();
+    expect(calls).toHaveLength(4);
+
+    cache.invalidateBackend('default');
+    await queryAll();
+    expect(calls).toHaveLength(6);
+    expect(cache.stats().invalidations).toBe(3);
+  });
+
+  it('does not store results of a query that overlapped a write to its collection', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config());
+    const overlappingClient = {
+      query: async (queryRequest: QueryRequest) => {
+        cache.invalidateCollection('default', queryRequest.collectionId); // A write lands while the query runs
+        return client.query(queryRequest);
+      },
+    } as unknown as VectraClient;
+
+    await cache.query('default', overlappingClient, request('c1', 'refunds'));
+    await cache.query('default', client, request('c1', 'refunds'));
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not cache a collection while its uploads are embedding', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config());
+    await cache.query('default', client, request('c2', 'refunds'));
+
+    cache.trackEmbedding('default', 'c1', ['f1', 'f2']);
+    await cache.query('default', client, request('c1', 'refunds'));
+    cache.fileSettled('default', 'f1');
+    await cache.query('default', client, request('c1', 'refunds'));
+    expect(cache.stats().embeddingFiles).toBe(1);
+
+    cache.fileSettled('default', 'f2');
+    await cache.query('default', client, request('c1', 'refunds'));
+    await cache.query('default', client, request('c1', 'refunds'));
+    await cache.query('default', client, request('c2', 'refunds'));
+    expect(calls.map(call => call.collectionId)).toEqual(['c2', 'c1', 'c1', 'c1']);
+    expect(cache.stats().embeddingFiles).toBe(0);
+  });
+
+  it('caches the collection again once files never seen embedded stop being tracked', async () => {
+    vi.useFakeTimers();
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config({ ttlSeconds: 3600 }));
+
+    cache.trackEmbedding('default', 'c1', ['f1']);
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    await cache.query('default', client, request('c1', 'refunds'));
+    await cache.query('default', client, request('c1', 'refunds'));
+    expect(calls).toHaveLength(1);
+    expect(cache.stats().embeddingFiles).toBe(0);
+  });
+
+  it('passes every query through when disabled', async () => {
+    const { client, calls } = fakeClient();
+    const cache = new QueryCache(config({ enabled: false }));
+
+    await cache.query('default', client, request('c1', 'refunds'));
+    await cache.query('default', client, request('c1', 'refunds'));
+    expect(calls).toHaveLength(2);
+    expect(cache.stats()).toMatchObject({ enabled: false, hits: 0, misses: 0, hitRate: null });
+  });
+});
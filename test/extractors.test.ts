@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { extractText } from '../src/extractors.js';
+
+describe('json extractor', () => {
+  it('flattens records into path: value lines', async () => {
+    const extracted = await extractText('data.jsonl', Buffer.from('{"name":"a","tags":["x"]}\n\n{"name":"b"}\n'));
+    expect(extracted.text).toBe('name: a\ntags[0]: x\n\nname: b');
+    expect(extracted.metadata).toEqual({ format: 'json', record_count: '2' });
+  });
+
+  it('falls back to the raw text when the file is not strict JSON', async () => {
+    const tsconfig = '{\n  // Strict mode\n  "compilerOptions": { "strict": true }\n}\n';
+    expect(await extractText('tsconfig.json', Buffer.from(tsconfig))).toEqual({ text: tsconfig, metadata: { format: 'text' } });
+
+    const lines = '{"name":"a"}\nnot json\n';
+    expect((await extractText('data.jsonl', Buffer.from(lines))).text).toBe(lines);
+  });
+});
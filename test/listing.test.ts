@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ListingSnapshots, encodeCursor, paginate, type ListOptions } from '../src/listing.js';
+
+const files = [
+  { id: 'f1', filename: 'b.pdf', size: 30, metadata: { team: 'support' } },
+  { id: 'f2', filename: 'A.pdf', size: 10 },
+  { id: 'f3', filename: 'c.md', size_bytes: 20, metadata: { team: 'support' } },
+];
+
+const options = (overrides: Partial<ListOptions> = {}): ListOptions => ({ limit: 2, sortOrder: 'asc', ...overrides });
+
+describe('paginate', () => {
+  it('pages through a listing with cursors', () => {
+    const first = paginate(files, options(), 'filename');
+    expect(first.items.map(file => file.id)).toEqual(['f1', 'f2']);
+    expect(first.total).toBe(3);
+
+    const second = paginate(files, options({ cursor: first.nextCursor! }), 'filename');
+    expect(second.items.map(file => file.id)).toEqual(['f3']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('sorts by aliased fields and filters by name and metadata', () => {
+    expect(paginate(files, options({ limit: 10, sortBy: 'size', sortOrder: 'desc' }), 'filename').items.map(file => file.id)).toEqual(['f1', 'f3', 'f2']);
+    expect(paginate(files, options({ limit: 10, sortBy: 'filename' }), 'filename').items.map(file => file.id)).toEqual(['f2', 'f1', 'f3']);
+    expect(paginate(files, options({ search: 'PDF', includeMetadataFilters: [{ field: 'team', value: 'support' }] }), 'filename').items.map(file => file.id)).toEqual(['f1']);
+  });
+
+  it('rejects malformed cursors and a cursor combined with an offset', () => {
+    expect(() => paginate(files, options({ cursor: 'not-a-cursor' }), 'filename')).toThrow('Invalid cursor');
+    expect(() => paginate(files, options({ cursor: encodeCursor(2), offset: 0 }), 'filename')).toThrow('either cursor or offset');
+  });
+});
+
+describe('ListingSnapshots', () => {
+  it('downloads a listing once and serves later pages from its snapshot', async () => {
+    const snapshots = new ListingSnapshots();
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return files.slice(0, 3 - (loads - 1)); // A file disappears from the backend after the first download
+    };
+
+    const first = await snapshots.page('collection-1', load, options({ limit: 1 }), 'filename');
+    const second = await snapshots.page('collection-1', load, options({ limit: 1, cursor: first.nextCursor! }), 'filename');
+    const third = await snapshots.page('collection-1', load, options({ limit: 1, cursor: second.nextCursor! }), 'filename');
+
+    expect(loads).toBe(1);
+    expect([...first.items, ...second.items, ...third.items].map(file => file.id)).toEqual(['f1', 'f2', 'f3']);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('rejects a cursor from a different listing', async () => {
+    const snapshots = new ListingSnapshots();
+    const first = await snapshots.page('collection-1', async () => files, options({ limit: 1 }), 'filename');
+    await expect(snapshots.page('collection-2', async () => files, options({ limit: 1, cursor: first.nextCursor! }), 'filename'))
+      .rejects.toThrow('different listing');
+  });
+
+  it('downloads the listing again for a cursor whose snapshot is gone', async () => {
+    const snapshots = new ListingSnapshots();
+    let loads = 0;
+    const page = await snapshots.page('collection-1', async () => { loads++; return files; }, options({ limit: 1, cursor: encodeCursor(1, 'abc123') }), 'filename');
+    expect(loads).toBe(1);
+    expect(page.items.map(file => file.id)).toEqual(['f2']);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { packQueryResults, type PackableHit } from '../src/packing.js';
+
+const hit = (vectorId: string, text: string, metadata: Record<string, unknown> = {}): PackableHit => ({
+  vector_id: vectorId,
+  file_id: `file-${vectorId}`,
+  score: 0.5,
+  metadata: { filename: `${vectorId}.md`, chunk_text: text, ...metadata },
+});
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+
+describe('packQueryResults', () => {
+  it('packs every hit with numbered citations when they fit', () => {
+    const { summary, data } = packQueryResults([hit('v1', 'first passage'), hit('v2', 'second passage')], [], 1000);
+
+    expect(summary).toContain('### [1] v1.md');
+    expect(summary).toContain('[2] v2.md (file ID: file-v2, vector ID: v2)');
+    expect(summary).not.toContain('Packed into');
+    expect(data.results.map(result => result.citation)).toEqual([1, 2]);
+    expect(data.omitted).toBe(0);
+  });
+
+  it('drops verbose sections before cutting any hit text', () => {
+    const neighbors = Array.from({ length: 50 }, (_, i) => ({ id: `node-${i}`, label: 'neighbor' }));
+    const { summary, data } = packQueryResults([hit('v1', 'short passage', { arangodb_neighbors: neighbors })], [], 200);
+
+    expect(data.droppedSections).toEqual(['neighbors']);
+    expect(summary).not.toContain('Graph Neighbors');
+    expect(summary).toContain('short passage');
+    expect(summary).toContain('neighbors sections dropped');
+  });
+
+  it('truncates the first hit that does not fit and omits the rest, staying within the budget', () => {
+    const hits = [hit('v1', words(60)), hit('v2', words(60)), hit('v3', words(60))];
+    const { summary, data } = packQueryResults(hits, [], 250);
+
+    expect(data.results.map(result => [result.vectorId, result.truncated])).toEqual([['v1', false], ['v2', true]]);
+    expect(data.omitted).toBe(1);
+    expect(data.estimatedTokens).toBeLessThanOrEqual(250);
+    expect(summary).toContain('1 lower-ranked hits omitted; hit 2 truncated');
+  });
+
+  it('puts synthesized answers first', () => {
+    const { summary } = packQueryResults([hit('v1', 'passage')], [{ collectionId: 'c1', answer: 'The answer.' }], 1000);
+    expect(summary.startsWith('**Synthesized Answer (collection c1):**\nThe answer.')).toBe(true);
+  });
+
+  it('reports no results rather than a budget overflow when there are no hits', () => {
+    expect(packQueryResults([], [], 100).summary).toBe('No results found.');
+  });
+
+  it('reports a budget too small for any hit', () => {
+    const { summary, data } = packQueryResults([hit('v1', words(100))], [], 60);
+    expect(summary).toContain('No results fit within the token budget.');
+    expect(data.omitted).toBe(1);
+  });
+});
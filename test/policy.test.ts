@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIRMATION_TTL_MS, ToolPolicy, type PolicyConfig } from '../src/policy.js';
+import { buildToolResponse, TOOL_DATA } from '../src/output.js';
+import { VectraApiError, type VectraClient } from '../src/client.js';
+import { ConfigError } from '../src/config.js';
+
+const TOOLS = ['list_collections', 'create_collection', 'delete_file', 'get_file_status', 'query_collection'];
+
+const policy = (config: Partial<PolicyConfig> = {}) => new ToolPolicy({ readOnly: false, confirmDestructive: true, ...config }, TOOLS);
+
+// Collections c1 (files f1, f2) and c2 (file f3); c-gone was deleted
+const client = {
+  getFile: async (fileId: string) => ({ id: fileId, filename: `${fileId}.pdf` }),
+  listCollectionFiles: async (collectionId: string) => {
+    if (collectionId === 'c-gone') throw new VectraApiError('API Error: Not found', 404);
+    return collectionId === 'c1' ? [{ id: 'f1' }, { id: 'f2' }] : [{ id: 'f3' }];
+  },
+} as unknown as VectraClient;
+
+describe('tool and collection policy', () => {
+  it('rejects unknown tool names in the allow/deny lists', () => {
+    expect(() => policy({ denyTools: ['no_such_tool'] })).toThrow(ConfigError);
+  });
+
+  it('disables mutating tools in read-only mode and applies the allow/deny lists', () => {
+    const readOnly = policy({ readOnly: true });
+    expect(readOnly.isToolEnabled('create_collection')).toBe(false);
+    expect(readOnly.isToolEnabled('list_collections')).toBe(true);
+    expect(() => readOnly.assertToolAllowed('delete_file')).toThrow('read-only mode');
+
+    const listed = policy({ allowTools: ['list_collections', 'query_collection'], denyTools: ['query_collection'] });
+    expect(TOOLS.filter(name => listed.isToolEnabled(name))).toEqual(['list_collections']);
+    expect(() => listed.assertToolAllowed('query_collection')).toThrow('disabled by the server policy');
+  });
+
+  it('rejects collections outside the allowlist, including in collectionIds', () => {
+    const restricted = policy({ allowedCollections: ['c1'] });
+    expect(() => restricted.assertCollectionsAllowed({ collectionId: 'c1' })).not.toThrow();
+    expect(() => restricted.assertCollectionsAllowed({ collectionIds: ['c1', 'c2'] })).toThrow('Collection c2 is not');
+    expect(restricted.filterCollections([{ id: 'c1' }, { id: 'c2' }])).toEqual([{ id: 'c1' }]);
+  });
+
+  it('only allows file IDs found in an allowed collection', async () => {
+    const restricted = policy({ allowedCollections: ['c1', 'c-gone'] });
+    await expect(restricted.assertFilesAllowed(client, ['f1', 'f2'])).resolves.toBeUndefined();
+    await expect(restricted.assertFilesAllowed(client, ['f1', 'f3'])).rejects.toThrow('File f3 is not in any collection');
+    await expect(policy().assertFilesAllowed(client, ['f3'])).resolves.toBeUndefined();
+  });
+
+  it('takes file IDs only from tools that act on files', () => {
+    expect(policy().fileIdsOf('get_file_status', { fileId: 'f1' })).toEqual(['f1']);
+    expect(policy().fileIdsOf('query_collection', { fileId: 'f1' })).toEqual([]);
+  });
+});
+
+describe('destructive call confirmation', () => {
+  const deleted: string[] = [];
+
+  beforeEach(() => {
+    deleted.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const run = (args: Record<string, unknown>) => async () => {
+    deleted.push(String(args.fileId));
+    return buildToolResponse('Deleted', {}, 'json');
+  };
+
+  // Dry run a delete_file call and return the issued token
+  async function issueToken(guard: ToolPolicy, args: Record<string, unknown>, session = 'session-1'): Promise<string> {
+    const response = await guard.guardDestructive(client, 'delete_file', { ...args, format: 'json' }, session, run(args));
+    const data = response[TOOL_DATA] as { dryRun: boolean; confirmationToken: string };
+    expect(data.dryRun).toBe(true);
+    return data.confirmationToken;
+  }
+
+  it('describes the call first, then runs it once with the issued token', async () => {
+    const guard = policy();
+    const token = await issueToken(guard, { fileId: 'f1' });
+    expect(deleted).toEqual([]);
+
+    await guard.guardDestructive(client, 'delete_file', { fileId: 'f1', confirmationToken: token }, 'session-1', run({ fileId: 'f1' }));
+    expect(deleted).toEqual(['f1']);
+
+    // Single use
+    await expect(guard.guardDestructive(client, 'delete_file', { fileId: 'f1', confirmationToken: token }, 'session-1', run({ fileId: 'f1' })))
+      .rejects.toThrow('Invalid or expired confirmationToken');
+  });
+
+  it('rejects a token used for different arguments', async () => {
+    const guard = policy();
+    const token = await issueToken(guard, { fileId: 'f1' });
+    await expect(guard.guardDestructive(client, 'delete_file', { fileId: 'f2', confirmationToken: token }, 'session-1', run({ fileId: 'f2' })))
+      .rejects.toThrow('issued for a different call');
+  });
+
+  it('rejects a token used by another client session', async () => {
+    const guard = policy();
+    const token = await issueToken(guard, { fileId: 'f1' });
+    await expect(guard.guardDestructive(client, 'delete_file', { fileId: 'f1', confirmationToken: token }, 'session-2', run({ fileId: 'f1' })))
+      .rejects.toThrow('different client session');
+  });
+
+  it('rejects an expired token', async () => {
+    vi.useFakeTimers();
+    const guard = policy();
+    const token = await issueToken(guard, { fileId: 'f1' });
+    vi.advanceTimersByTime(CONFIRMATION_TTL_MS);
+    await expect(guard.guardDestructive(client, 'delete_file', { fileId: 'f1', confirmationToken: token }, 'session-1', run({ fileId: 'f1' })))
+      .rejects.toThrow('Invalid or expired confirmationToken');
+  });
+
+  it('ignores the output format when matching a token to its call', async () => {
+    const guard = policy();
+    const token = await issueToken(guard, { fileId: 'f1' });
+    expect(guard.confirmation('delete_file', { fileId: 'f1', confirmationToken: token, format: 'markdown' }, 'session-1').confirmed).toBe(true);
+  });
+
+  it('runs destructive calls directly when confirmation is off, unless it is a dry run', async () => {
+    const guard = policy({ confirmDestructive: false });
+    await guard.guardDestructive(client, 'delete_file', { fileId: 'f1' }, 'session-1', run({ fileId: 'f1' }));
+    expect(deleted).toEqual(['f1']);
+
+    const response = await guard.guardDestructive(client, 'delete_file', { fileId: 'f2', dryRun: true, format: 'json' }, 'session-1', run({ fileId: 'f2' }));
+    expect((response[TOOL_DATA] as { dryRun: boolean }).dryRun).toBe(true);
+    expect(deleted).toEqual(['f1']);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { applyQueryDefaults, buildQueryRequest, fuseResults, handleQueryCollections } from '../src/query.js';
+import { assertValidQueryCollectionArgs, assertValidQueryCollectionsArgs } from '../src/validators.js';
+import { TOOL_DATA } from '../src/output.js';
+import type { MetadataFilter, QueryRequest, QueryResult, VectraClient } from '../src/client.js';
+import type { FederatedQueryResponse } from '../src/query.js';
+
+const hit = (vectorId: string, score?: number): QueryResult => ({ vector_id: vectorId, score, metadata: { chunk_text: `text of ${vectorId}` } });
+
+describe('fuseResults', () => {
+  it('sums reciprocal ranks of a chunk found in several collections', () => {
+    const fused = fuseResults([
+      { collectionId: 'a', results: [hit('v1'), hit('v2')] },
+      { collectionId: 'b', results: [hit('v2'), hit('v3')] },
+    ], 'rrf', 60, 10);
+
+    expect(fused.map(result => result.vector_id)).toEqual(['v2', 'v1', 'v3']);
+    expect(fused[0].source_collections).toEqual(['a', 'b']);
+    expect(fused[0].fused_score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[1].fused_score).toBeCloseTo(1 / 61);
+  });
+
+  it('keeps the best normalized score per chunk with score fusion', () => {
+    // Raw scores are on different scales; each collection is normalized to 0-1 first
+    const fused = fuseResults([
+      { collectionId: 'a', results: [hit('v1', 0.9), hit('v2', 0.5)] },
+      { collectionId: 'b', results: [hit('v3', 40), hit('v2', 30), hit('v4', 20)] },
+    ], 'score', 60, 10);
+
+    expect(fused.map(result => [result.vector_id, result.fused_score])).toEqual([
+      ['v1', 1], ['v3', 1], ['v2', 0.5], ['v4', 0],
+    ]);
+  });
+
+  it('cuts the merged ranking to the limit', () => {
+    const fused = fuseResults([{ collectionId: 'a', results: [hit('v1'), hit('v2'), hit('v3')] }], 'rrf', 60, 2);
+    expect(fused.map(result => result.vector_id)).toEqual(['v1', 'v2']);
+  });
+
+  it('never merges hits without a vector ID', () => {
+    const fused = fuseResults([
+      { collectionId: 'a', results: [{ score: 1 }] },
+      { collectionId: 'b', results: [{ score: 1 }] },
+    ], 'rrf', 60, 10);
+    expect(fused).toHaveLength(2);
+  });
+});
+
+describe('handleQueryCollections', () => {
+  const client = {} as VectraClient;
+  const args = (extra: Record<string, unknown> = {}) => {
+    const raw: Record<string, unknown> = { collectionIds: ['a', 'b', 'a'], queryText: 'refund policy', format: 'json', ...extra };
+    assertValidQueryCollectionsArgs(raw);
+    return raw;
+  };
+
+  it('queries each collection once and reports failed collections alongside the merged hits', async () => {
+    const requests: QueryRequest[] = [];
+    const runQuery = async (request: QueryRequest) => {
+      requests.push(request);
+      if (request.collectionId === 'b') throw new Error('API Error: 503');
+      return [hit('v1', 0.8)];
+    };
+
+    const response = await handleQueryCollections(client, args(), runQuery, 'json');
+    const data = response[TOOL_DATA] as FederatedQueryResponse;
+    expect(requests.map(request => request.collectionId)).toEqual(['a', 'b']);
+    expect(data.failures).toEqual([{ collectionId: 'b', error: 'API Error: 503' }]);
+    expect(data.results).toHaveLength(1);
+  });
+
+  it('fails when every collection fails', async () => {
+    const runQuery = async (): Promise<QueryResult[]> => { throw new Error('down'); };
+    await expect(handleQueryCollections(client, args(), runQuery, 'json')).rejects.toThrow('All collection queries failed');
+  });
+
+  it('reports synthesized answers per collection rather than per hit', async () => {
+    const runQuery = async (request: QueryRequest) => [{ ...hit(`v-${request.collectionId}`), synthesized_answer: `answer from ${request.collectionId}` }];
+
+    const data = (await handleQueryCollections(client, args(), runQuery, 'json'))[TOOL_DATA] as FederatedQueryResponse;
+    expect(data.answers).toEqual([
+      { collectionId: 'a', answer: 'answer from a' },
+      { collectionId: 'b', answer: 'answer from b' },
+    ]);
+    expect(data.results.every(result => result.synthesized_answer === undefined)).toBe(true);
+  });
+});
+
+describe('query defaults', () => {
+  // Defaults are applied before validation, as callTool does
+  const request = (defaults: Record<string, unknown>, args: Record<string, unknown>) => {
+    const withDefaults = applyQueryDefaults(defaults, { collectionId: 'c1', queryText: 'refunds', ...args });
+    assertValidQueryCollectionArgs(withDefaults);
+    return buildQueryRequest(withDefaults);
+  };
+
+  it('lets call arguments override the deployment defaults', () => {
+    expect(request({ limit: 20, searchMode: 'keyword' }, { limit: 3 })).toMatchObject({ limit: 3, searchMode: 'keyword' });
+  });
+
+  it('applies default weights to hybrid search only', () => {
+    const defaults = { searchMode: 'hybrid', vectorWeight: 0.75 };
+    expect(request(defaults, {})).toMatchObject({ searchMode: 'hybrid', vectorWeight: 0.75, keywordWeight: 0.25 });
+
+    const vector = request(defaults, { searchMode: 'vector' });
+    expect(vector.vectorWeight).toBeUndefined();
+    expect(vector.keywordWeight).toBeUndefined();
+  });
+
+  it('still rejects weights passed explicitly for a non-hybrid search', () => {
+    expect(() => request({}, { searchMode: 'vector', vectorWeight: 0.5 })).toThrow('only apply to hybrid search');
+  });
+
+  it('does not share nested default values between calls', () => {
+    const defaults = { includeMetadataFilters: [{ field: 'team', value: 'support' }] };
+    const withDefaults = applyQueryDefaults(defaults, {});
+    (withDefaults.includeMetadataFilters as MetadataFilter[])[0].value = 'sales';
+    expect(defaults.includeMetadataFilters[0].value).toBe('support');
+  });
+
+  it('drops graph parameters when graph search is off', () => {
+    expect(request({ graphDepth: 2 }, { enableGraphSearch: false }).graphDepth).toBeUndefined();
+    expect(request({ graphDepth: 2 }, {}).graphDepth).toBe(2);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { collapseByFile, diversifyByMmr, mergeAdjacentChunks, postProcessHits } from '../src/ranking.js';
+import type { ProcessedQueryResult } from '../src/ranking.js';
+
+const hit = (vectorId: string, fields: { fileId?: string; chunk?: number; text?: string; score?: number } = {}): ProcessedQueryResult => ({
+  vector_id: vectorId,
+  file_id: fields.fileId,
+  score: fields.score,
+  metadata: { chunk_text: fields.text ?? vectorId, chunk_index: fields.chunk },
+});
+
+describe('mergeAdjacentChunks', () => {
+  it('joins consecutive chunks of a file at the rank of their best hit, dropping the shared overlap', () => {
+    const merged = mergeAdjacentChunks([
+      hit('v1', { fileId: 'f1', chunk: 1, text: 'brown fox jumps over the lazy dog' }),
+      hit('other', { fileId: 'f2', chunk: 0 }),
+      hit('v0', { fileId: 'f1', chunk: 0, text: 'The quick brown fox jumps' }),
+    ]);
+
+    expect(merged.map(result => result.vector_id)).toEqual(['v1', 'other']);
+    expect(merged[0].metadata?.chunk_text).toBe('The quick brown fox jumps over the lazy dog');
+    expect(merged[0].merged_vector_ids).toEqual(['v0', 'v1']);
+  });
+
+  it('leaves chunks with a gap between them and hits without a chunk index alone', () => {
+    const hits = [hit('v0', { fileId: 'f1', chunk: 0 }), hit('v2', { fileId: 'f1', chunk: 2 }), hit('loose', { fileId: 'f1' })];
+    expect(mergeAdjacentChunks(hits)).toEqual(hits);
+  });
+});
+
+describe('collapseByFile', () => {
+  it('keeps the top hits of each file and counts the dropped ones without changing the input', () => {
+    const hits = [hit('a1', { fileId: 'a' }), hit('a2', { fileId: 'a' }), hit('b1', { fileId: 'b' }), hit('a3', { fileId: 'a' }), hit('x')];
+    const collapsed = collapseByFile(hits, 1);
+
+    expect(collapsed.map(result => [result.vector_id, result.collapsed_count])).toEqual([['a1', 2], ['b1', undefined], ['x', undefined]]);
+    expect(hits[0].collapsed_count).toBeUndefined();
+  });
+});
+
+describe('diversifyByMmr', () => {
+  const hits = [
+    hit('original', { text: 'refund policy for annual plans', score: 1 }),
+    hit('duplicate', { text: 'refund policy for annual plans', score: 0.9 }),
+    hit('different', { text: 'shipping times to europe', score: 0.1 }),
+  ];
+
+  it('prefers a less relevant but different hit over a near duplicate', () => {
+    expect(diversifyByMmr(hits, 2, 0.5).map(result => result.vector_id)).toEqual(['original', 'different']);
+  });
+
+  it('keeps rank order when lambda weighs relevance only', () => {
+    expect(diversifyByMmr(hits, 3, 1).map(result => result.vector_id)).toEqual(['original', 'duplicate', 'different']);
+  });
+});
+
+describe('postProcessHits', () => {
+  it('cuts to the limit after collapsing', () => {
+    const hits = [hit('a1', { fileId: 'a' }), hit('a2', { fileId: 'a' }), hit('b1', { fileId: 'b' }), hit('c1', { fileId: 'c' })];
+    const processed = postProcessHits(hits, { maxHitsPerFile: 1, diversityLambda: 0.5 }, 2);
+    expect(processed.map(result => result.vector_id)).toEqual(['a1', 'b1']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { AxiosError, type AxiosResponse } from 'axios';
+import { isRejectedBeforeProcessing, mapWithConcurrency, parseRetryAfter, withRetry } from '../src/retry.js';
+
+const response = (status: number): AxiosResponse => ({ status, statusText: '', headers: {}, data: {}, config: {} } as AxiosResponse);
+
+const httpError = (status: number) => new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response(status));
+
+// A request that fails with each given outcome in turn, then succeeds
+function flakyRequest(failures: Array<number | AxiosError>) {
+  let attempts = 0;
+  const request = async () => {
+    const failure = failures[attempts++];
+    if (failure === undefined) return response(200);
+    if (typeof failure === 'number') return response(failure);
+    throw failure;
+  };
+  return { request, attempts: () => attempts };
+}
+
+const noDelay = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+describe('withRetry', () => {
+  it('retries transient failures with the default policy', async () => {
+    const { request, attempts } = flakyRequest([httpError(503), new AxiosError('timeout of 1000ms exceeded', 'ECONNABORTED')]);
+    expect((await withRetry(request, noDelay)).status).toBe(200);
+    expect(attempts()).toBe(3);
+  });
+
+  it('returns client errors without retrying', async () => {
+    const { request, attempts } = flakyRequest([400]);
+    expect((await withRetry(request, noDelay)).status).toBe(400);
+    expect(attempts()).toBe(1);
+  });
+
+  it('gives up after maxRetries and throws the last error', async () => {
+    const { request, attempts } = flakyRequest([httpError(502), httpError(502), httpError(504)]);
+    await expect(withRetry(request, noDelay)).rejects.toThrow('status code 504');
+    expect(attempts()).toBe(3);
+  });
+
+  it('only retries requests the backend never processed when uploading', async () => {
+    const options = { ...noDelay, shouldRetry: isRejectedBeforeProcessing };
+
+    const rejected = flakyRequest([httpError(429), new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED')]);
+    expect((await withRetry(rejected.request, options)).status).toBe(200);
+    expect(rejected.attempts()).toBe(3);
+
+    for (const failure of [httpError(502), new AxiosError('timeout of 1000ms exceeded', 'ECONNABORTED')]) {
+      const maybeProcessed = flakyRequest([failure]);
+      await expect(withRetry(maybeProcessed.request, options)).rejects.toBe(failure);
+      expect(maybeProcessed.attempts()).toBe(1);
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps the input order and the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms, index) => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      running--;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+
+  it('starts no further items once aborted', async () => {
+    const controller = new AbortController();
+    const results = await mapWithConcurrency([1, 2, 3], 1, async item => {
+      if (item === 2) controller.abort();
+      return item;
+    }, controller.signal);
+    expect(results).toEqual([1, 2, undefined]);
+  });
+});
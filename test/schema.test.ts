@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { validateAgainstSchema, type JsonSchema } from '../src/schema.js';
+import { assertValidEmbedTextsArgs, assertValidUpdateCollectionArgs } from '../src/validators.js';
+import { EmbedTextsArgsSchema, QueryCollectionArgsSchema } from '../src/tools.js';
+
+describe('validateAgainstSchema', () => {
+  it('names the path of every problem', () => {
+    const args = { items: [{ text: 'ok' }, { text: 3, metadata: { tag: 1 } }], waitTimeoutSeconds: 0 };
+    expect(validateAgainstSchema(EmbedTextsArgsSchema, args)).toEqual([
+      'items[1].text must be a string',
+      'items[1].metadata.tag must be a string',
+      'waitTimeoutSeconds must be greater than 0',
+    ]);
+  });
+
+  it('reports missing required properties and type mismatches at the root', () => {
+    expect(validateAgainstSchema(EmbedTextsArgsSchema, {})).toEqual(['items is required']);
+    expect(validateAgainstSchema(EmbedTextsArgsSchema, [])).toEqual(['arguments must be an object']);
+  });
+
+  it('fills in defaults without sharing mutable values between calls', () => {
+    const schema: JsonSchema = { type: 'object', properties: { tags: { type: 'array', default: [] } } };
+    const first: Record<string, unknown> = {};
+    const second: Record<string, unknown> = {};
+    validateAgainstSchema(schema, first);
+    validateAgainstSchema(schema, second);
+    expect(first.tags).toEqual([]);
+    expect(first.tags).not.toBe(second.tags);
+  });
+
+  it('applies the query tool defaults', () => {
+    const args: Record<string, unknown> = { collectionId: 'c1', queryText: 'refunds' };
+    expect(validateAgainstSchema(QueryCollectionArgsSchema, args)).toEqual([]);
+    expect(args).toMatchObject({ limit: 10, searchMode: 'hybrid', format: 'markdown' });
+  });
+
+  it('checks enums, bounds, empty strings and unknown properties', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: ['a', 'b'] },
+        weight: { type: 'number', minimum: 0, maximum: 1 },
+        name: { type: 'string', minLength: 1 },
+      },
+      additionalProperties: false,
+    };
+    expect(validateAgainstSchema(schema, { mode: 'c', weight: 2, name: '  ', extra: true })).toEqual([
+      'mode must be one of: a, b',
+      'weight must be at most 1',
+      'name must not be empty',
+      'extra is not an allowed property',
+    ]);
+  });
+
+  it('requires one of the anyOf alternatives', () => {
+    expect(() => assertValidUpdateCollectionArgs({ collectionId: 'c1' })).toThrow(
+      'Invalid arguments for update_collection: arguments must include name or description'
+    );
+    expect(() => assertValidUpdateCollectionArgs({ collectionId: 'c1', name: 'Renamed' })).not.toThrow();
+  });
+
+  it('rejects invalid tool arguments with every problem in one error', () => {
+    expect(() => assertValidEmbedTextsArgs({ items: [{}], concurrency: 0 })).toThrow(
+      'Invalid arguments for embed_texts: items[0].text is required; concurrency must be at least 1'
+    );
+  });
+});
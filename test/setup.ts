@@ -0,0 +1,4 @@
+// Keep the server's log records out of the test output
+import { configureLogging } from '../src/logger.js';
+
+configureLogging({ level: 'critical' });
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { waitForFiles } from '../src/status.js';
+import type { VectraClient } from '../src/client.js';
+
+// Reports each file as processing until it has been polled `pollsUntilDone` times
+function fakeClient(pollsUntilDone: number) {
+  const polls = new Map<string, number>();
+  const client = {
+    getFile: async (fileId: string) => {
+      const count = (polls.get(fileId) ?? 0) + 1;
+      polls.set(fileId, count);
+      return { id: fileId, embeddingStatus: count >= pollsUntilDone ? 'completed' : 'processing' };
+    },
+  };
+  return { client: client as unknown as VectraClient, polls };
+}
+
+describe('waitForFiles', () => {
+  it('returns once every file is completed', async () => {
+    const { client } = fakeClient(1);
+    const { statuses, timedOut, cancelled } = await waitForFiles(client, ['f1', 'f2']);
+    expect(statuses.map(status => status.state)).toEqual(['completed', 'completed']);
+    expect([timedOut, cancelled]).toEqual([false, false]);
+  });
+
+  it('stops polling as soon as the client cancels', async () => {
+    const { client, polls } = fakeClient(Infinity);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const startedAt = Date.now();
+    const { statuses, timedOut, cancelled } = await waitForFiles(client, ['f1'], 120, controller.signal);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(statuses[0].state).toBe('processing');
+    expect([timedOut, cancelled]).toEqual([false, true]);
+    expect(polls.get('f1')).toBe(1);
+  });
+});
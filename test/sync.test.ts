@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { handleSyncDirectory, type SyncRemovalControl } from '../src/sync.js';
+import { TOOL_DATA } from '../src/output.js';
+import type { VectraClient } from '../src/client.js';
+
+// In-memory stand-in for the Vectra API: uploads get sequential IDs, deletes drop them
+function fakeClient() {
+  const files = new Map<string, string>();
+  let next = 0;
+  const client = {
+    uploadFile: async (input: { content: string }) => {
+      const id = `file-${++next}`;
+      files.set(id, input.content);
+      return { id };
+    },
+    deleteFile: async (fileId: string) => {
+      files.delete(fileId);
+    },
+  };
+  return { client: client as unknown as VectraClient, files };
+}
+
+type SyncData = {
+  counts: { added: number; updated: number; removed: number; unchanged: number; failed: number };
+  pendingRemovals: Array<{ path: string; fileId: string }>;
+  confirmationToken?: string;
+  pendingDeletes: string[];
+  truncated: boolean;
+};
+
+const confirmed: SyncRemovalControl = { confirmed: true, issueToken: () => 'token' };
+const unconfirmed: SyncRemovalControl = { confirmed: false, issueToken: () => 'token' };
+
+describe('handleSyncDirectory', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vectra-sync-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const write = async (relativePath: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(dir, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(dir, relativePath), content);
+  };
+  const sync = async (client: VectraClient, options: Parameters<typeof handleSyncDirectory>[5] = {}, removals = confirmed) => {
+    const response = await handleSyncDirectory(client, dir, undefined, undefined, undefined, options, removals);
+    return response[TOOL_DATA] as SyncData;
+  };
+  const manifestPaths = async () => Object.keys(JSON.parse(await fs.readFile(path.join(dir, '.vectra-sync.json'), 'utf-8')).files).sort();
+
+  it('uploads new files once and skips unchanged ones', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await write('docs/b.md', 'beta');
+
+    expect((await sync(client)).counts).toMatchObject({ added: 2, unchanged: 0 });
+    expect((await sync(client)).counts).toMatchObject({ added: 0, unchanged: 2 });
+    expect(files.size).toBe(2);
+    expect(await manifestPaths()).toEqual(['a.md', 'docs/b.md']);
+  });
+
+  it('replaces the Vectra file of a changed file', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await sync(client);
+    await write('a.md', 'alpha, revised');
+
+    expect((await sync(client)).counts).toMatchObject({ updated: 1 });
+    expect([...files.values()]).toEqual(['alpha, revised']);
+  });
+
+  it('retries deleting a replaced file on the next sync when the delete fails', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await sync(client);
+    await write('a.md', 'alpha, revised');
+
+    const failingDeletes = { ...client, deleteFile: async () => { throw new Error('API Error: 500'); } } as unknown as VectraClient;
+    const data = await sync(failingDeletes);
+    expect(data.counts).toMatchObject({ updated: 1, failed: 0 });
+    expect(data.pendingDeletes).toEqual(['file-1']);
+    expect(files.size).toBe(2);
+
+    expect((await sync(client)).pendingDeletes).toEqual([]);
+    expect([...files.values()]).toEqual(['alpha, revised']);
+    expect(JSON.parse(await fs.readFile(path.join(dir, '.vectra-sync.json'), 'utf-8')).pendingDeletes).toBeUndefined();
+  });
+
+  it('deletes the files of removed paths when the removal is confirmed', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await write('b.md', 'beta');
+    await sync(client);
+    await fs.rm(path.join(dir, 'b.md'));
+
+    expect((await sync(client)).counts).toMatchObject({ removed: 1, unchanged: 1 });
+    expect([...files.values()]).toEqual(['alpha']);
+    expect(await manifestPaths()).toEqual(['a.md']);
+  });
+
+  it('holds back unconfirmed removals and reports them with a token', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await write('b.md', 'beta');
+    await sync(client);
+    await fs.rm(path.join(dir, 'b.md'));
+    await write('c.md', 'gamma');
+
+    const data = await sync(client, {}, unconfirmed);
+    expect(data.counts).toMatchObject({ added: 1, removed: 0 });
+    expect(data.pendingRemovals).toEqual([{ path: 'b.md', fileId: 'file-2' }]);
+    expect(data.confirmationToken).toBe('token');
+    expect(files.has('file-2')).toBe(true);
+    // The held path stays in the manifest, so the next confirmed sync still removes it
+    expect(await manifestPaths()).toEqual(['a.md', 'b.md', 'c.md']);
+    expect((await sync(client)).counts).toMatchObject({ removed: 1 });
+  });
+
+  it('changes nothing on a dry run', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await sync(client);
+    await fs.rm(path.join(dir, 'a.md'));
+    await write('b.md', 'beta');
+
+    const data = await sync(client, {}, { ...confirmed, dryRun: true });
+    expect(data.counts).toMatchObject({ added: 1, removed: 1 });
+    expect(files.size).toBe(1);
+    expect(await manifestPaths()).toEqual(['a.md']);
+  });
+
+  it('keeps the files of paths skipped for their size', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await sync(client);
+    await write('a.md', 'alpha'.repeat(100));
+
+    const data = await sync(client, { maxFileSize: 100 });
+    expect(data.counts).toMatchObject({ removed: 0, updated: 0 });
+    expect(files.size).toBe(1);
+    expect(await manifestPaths()).toEqual(['a.md']);
+  });
+
+  it('skips removals when maxFiles cut the listing short', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await write('b.md', 'beta');
+    await sync(client);
+
+    const data = await sync(client, { maxFiles: 1 });
+    expect(data.truncated).toBe(true);
+    expect(data.counts.removed).toBe(0);
+    expect(files.size).toBe(2);
+  });
+
+  it('never syncs the manifest or hidden files by default', async () => {
+    const { client, files } = fakeClient();
+    await write('a.md', 'alpha');
+    await write('.env', 'SECRET=1');
+    await write('.notes/todo.md', 'todo');
+    await sync(client);
+    await sync(client);
+
+    expect([...files.values()]).toEqual(['alpha']);
+    expect((await sync(client, { includeHidden: true })).counts).toMatchObject({ added: 2, unchanged: 1 });
+  });
+});